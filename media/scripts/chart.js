@@ -0,0 +1,239 @@
+// Usage history chart drawn as plain SVG, so the dashboard needs no charting library or CDN
+(function () {
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+    const HEIGHT = 240;
+    const MARGIN = { top: 12, right: 16, bottom: 28, left: 44 };
+    const MINUTE = 60000;
+    const HOUR = 60 * MINUTE;
+    const DAY = 24 * HOUR;
+    const TICK_STEPS = [15 * MINUTE, 30 * MINUTE, HOUR, 2 * HOUR, 3 * HOUR, 6 * HOUR, 12 * HOUR, DAY, 2 * DAY, 7 * DAY];
+
+    function el(name, attrs, parent) {
+        const node = document.createElementNS(SVG_NS, name);
+        Object.keys(attrs).forEach(key => node.setAttribute(key, attrs[key]));
+        if (parent) parent.appendChild(node);
+        return node;
+    }
+
+    function formatTime(timestamp, step) {
+        const date = new Date(timestamp);
+        return step >= DAY
+            ? date.toLocaleDateString([], { month: 'short', day: 'numeric' })
+            : date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    }
+
+    function formatFullTime(timestamp) {
+        return new Date(timestamp).toLocaleString([], {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit'
+        });
+    }
+
+    function getTimeTicks(start, end, maxTicks) {
+        const span = end - start;
+        const step = TICK_STEPS.find(s => span / s <= maxTicks) || TICK_STEPS[TICK_STEPS.length - 1];
+        let first;
+        if (step >= DAY) {
+            // Day ticks sit on local midnight rather than UTC
+            const midnight = new Date(start);
+            midnight.setHours(0, 0, 0, 0);
+            first = midnight.getTime();
+            while (first < start) first += DAY;
+        } else {
+            first = Math.ceil(start / step) * step;
+        }
+        const ticks = [];
+        for (let t = first; t <= end; t += step) ticks.push(t);
+        return { ticks, step };
+    }
+
+    // Samples further apart than this are drawn as separate segments, e.g. while VS Code was closed
+    function getGapThreshold(points) {
+        const intervals = [];
+        for (let i = 1; i < points.length; i++) intervals.push(points[i][0] - points[i - 1][0]);
+        intervals.sort((a, b) => a - b);
+        const median = intervals.length ? intervals[Math.floor(intervals.length / 2)] : 0;
+        return Math.max(30 * MINUTE, median * 4);
+    }
+
+    function nearestPoint(points, timestamp) {
+        let lo = 0;
+        let hi = points.length - 1;
+        while (lo < hi) {
+            const mid = (lo + hi) >> 1;
+            if (points[mid][0] < timestamp) lo = mid + 1;
+            else hi = mid;
+        }
+        if (lo > 0 && timestamp - points[lo - 1][0] < points[lo][0] - timestamp) lo--;
+        return points[lo];
+    }
+
+    /**
+     * Draws the chart into `container`. `series` items are `{ bucket, label, color, points }`
+     * with points as `[timestamp, percent]`; `resets` are reset events of visible buckets and
+     * `spikes` recorded spikes, drawn as shaded spans.
+     */
+    function draw(container, options) {
+        const { series, resets, spikes, start, end, thresholds } = options;
+        container.textContent = '';
+
+        const width = Math.max(320, container.clientWidth);
+        const plotW = width - MARGIN.left - MARGIN.right;
+        const plotH = HEIGHT - MARGIN.top - MARGIN.bottom;
+        const visible = series
+            .map(s => Object.assign({}, s, { points: s.points.filter(p => p[0] >= start && p[0] <= end) }))
+            .filter(s => s.points.length > 0);
+
+        if (visible.length === 0) {
+            const empty = document.createElement('div');
+            empty.className = 'chart-empty';
+            empty.textContent = 'No history in this range yet';
+            container.appendChild(empty);
+            return;
+        }
+
+        const maxValue = Math.max(100, ...visible.map(s => Math.max(...s.points.map(p => p[1]))));
+        const x = t => MARGIN.left + ((t - start) / Math.max(1, end - start)) * plotW;
+        const y = v => MARGIN.top + plotH - (v / maxValue) * plotH;
+
+        const svg = el('svg', { class: 'history-svg', width, height: HEIGHT, viewBox: `0 0 ${width} ${HEIGHT}` }, container);
+
+        // Threshold bands
+        el('rect', {
+            class: 'band-warning',
+            x: MARGIN.left,
+            y: y(thresholds.critical),
+            width: plotW,
+            height: Math.max(0, y(thresholds.warning) - y(thresholds.critical))
+        }, svg);
+        el('rect', {
+            class: 'band-critical',
+            x: MARGIN.left,
+            y: y(maxValue),
+            width: plotW,
+            height: Math.max(0, y(thresholds.critical) - y(maxValue))
+        }, svg);
+
+        // Value axis
+        const valueTicks = [0, 25, 50, 75, 100];
+        if (maxValue > 100) valueTicks.push(Math.ceil(maxValue));
+        valueTicks.forEach(v => {
+            el('line', { class: 'chart-grid', x1: MARGIN.left, x2: width - MARGIN.right, y1: y(v), y2: y(v) }, svg);
+            const label = el('text', { class: 'chart-axis', x: MARGIN.left - 6, y: y(v) + 3, 'text-anchor': 'end' }, svg);
+            label.textContent = `${v}%`;
+        });
+
+        // Time axis
+        const { ticks, step } = getTimeTicks(start, end, Math.max(2, Math.floor(plotW / 90)));
+        ticks.forEach(t => {
+            el('line', { class: 'chart-grid', x1: x(t), x2: x(t), y1: MARGIN.top, y2: MARGIN.top + plotH }, svg);
+            const label = el('text', { class: 'chart-axis', x: x(t), y: HEIGHT - 8, 'text-anchor': 'middle' }, svg);
+            label.textContent = formatTime(t, step);
+        });
+
+        // Reset markers
+        const colors = {};
+        visible.forEach(s => (colors[s.bucket] = s.color));
+        resets
+            .filter(r => r.timestamp >= start && r.timestamp <= end && colors[r.bucket])
+            .forEach(r => {
+                const group = el('g', { class: 'reset-marker' }, svg);
+                el('line', { x1: x(r.timestamp), x2: x(r.timestamp), y1: MARGIN.top, y2: MARGIN.top + plotH, stroke: colors[r.bucket] }, group);
+                el('path', { d: `M ${x(r.timestamp) - 4} ${MARGIN.top} l 8 0 l -4 6 z`, fill: colors[r.bucket] }, group);
+                const title = el('title', {}, group);
+                const label = series.find(s => s.bucket === r.bucket).label;
+                title.textContent = `${label} reset at ${formatFullTime(r.timestamp)} (${r.requestsBefore} → ${r.requestsAfter} requests)`;
+            });
+
+        // Spike spans; ongoing ones run to the end of the range
+        spikes
+            .filter(spike => colors[spike.bucket] && spike.startedAt <= end && (spike.endedAt === null || spike.endedAt >= start))
+            .forEach(spike => {
+                const from = x(Math.max(start, spike.startedAt));
+                const to = x(spike.endedAt === null ? end : Math.min(end, spike.endedAt));
+                const rect = el('rect', {
+                    class: 'spike-region',
+                    x: from,
+                    y: MARGIN.top,
+                    width: Math.max(2, to - from),
+                    height: plotH,
+                    fill: colors[spike.bucket]
+                }, svg);
+                const title = el('title', {}, rect);
+                const label = series.find(s => s.bucket === spike.bucket).label;
+                title.textContent = `${label} spike from ${formatFullTime(spike.startedAt)}, peak ${spike.peakRatePerHour.toFixed(0)}%/h${spike.expected ? ' (expected)' : ''}`;
+            });
+
+        // Series
+        visible.forEach(s => {
+            const gap = getGapThreshold(s.points);
+            const d = s.points
+                .map((p, i) => `${i === 0 || p[0] - s.points[i - 1][0] > gap ? 'M' : 'L'} ${x(p[0]).toFixed(1)} ${y(p[1]).toFixed(1)}`)
+                .join(' ');
+            el('path', { class: 'chart-series', d, stroke: s.color }, svg);
+        });
+
+        // Hover
+        const cursor = el('line', { class: 'chart-cursor', y1: MARGIN.top, y2: MARGIN.top + plotH, visibility: 'hidden' }, svg);
+        const dots = visible.map(s => el('circle', { r: 3.5, fill: s.color, visibility: 'hidden' }, svg));
+        const overlay = el('rect', { class: 'chart-overlay', x: MARGIN.left, y: MARGIN.top, width: plotW, height: plotH }, svg);
+        const tooltip = document.createElement('div');
+        tooltip.className = 'chart-tooltip';
+        container.appendChild(tooltip);
+
+        overlay.addEventListener('mousemove', event => {
+            const bounds = svg.getBoundingClientRect();
+            const mouseX = event.clientX - bounds.left;
+            const timestamp = start + ((mouseX - MARGIN.left) / plotW) * (end - start);
+            const nearest = visible.map(s => nearestPoint(s.points, timestamp));
+            const anchor = nearest.reduce((best, p) => (Math.abs(p[0] - timestamp) < Math.abs(best[0] - timestamp) ? p : best));
+
+            cursor.setAttribute('x1', x(anchor[0]));
+            cursor.setAttribute('x2', x(anchor[0]));
+            cursor.setAttribute('visibility', 'visible');
+
+            const rows = [];
+            visible.forEach((s, i) => {
+                const p = nearest[i];
+                // Series without a sample close to the cursor are left out instead of showing stale values
+                const close = Math.abs(p[0] - anchor[0]) <= getGapThreshold(s.points) / 2;
+                dots[i].setAttribute('visibility', close ? 'visible' : 'hidden');
+                if (close) {
+                    dots[i].setAttribute('cx', x(p[0]));
+                    dots[i].setAttribute('cy', y(p[1]));
+                    rows.push({ color: s.color, label: s.label, value: p[1] });
+                }
+            });
+
+            tooltip.textContent = '';
+            const heading = document.createElement('div');
+            heading.className = 'chart-tooltip-time';
+            heading.textContent = formatFullTime(anchor[0]);
+            tooltip.appendChild(heading);
+            rows.forEach(row => {
+                const line = document.createElement('div');
+                const swatch = document.createElement('span');
+                swatch.className = 'legend-swatch';
+                swatch.style.setProperty('--series-color', row.color);
+                line.appendChild(swatch);
+                line.appendChild(document.createTextNode(` ${row.label}: ${row.value.toFixed(1)}%`));
+                tooltip.appendChild(line);
+            });
+
+            tooltip.classList.add('visible');
+            const left = Math.min(x(anchor[0]) + 12, width - tooltip.offsetWidth - 4);
+            tooltip.style.left = `${Math.max(4, left)}px`;
+            tooltip.style.top = `${MARGIN.top}px`;
+        });
+
+        overlay.addEventListener('mouseleave', () => {
+            cursor.setAttribute('visibility', 'hidden');
+            dots.forEach(dot => dot.setAttribute('visibility', 'hidden'));
+            tooltip.classList.remove('visible');
+        });
+    }
+
+    window.CosmicChart = { draw };
+})();
@@ -1,6 +1,500 @@
 (function () {
     const vscode = acquireVsCodeApi();
 
+    const SERIES_COLORS = ['#7d5fff', '#00d2d3', '#ff9f43', '#ff6b9d', '#feca57', '#54a0ff'];
+    const RANGES = [
+        { id: 'session', label: 'This Session' },
+        { id: '24h', label: '24h', ms: 86400000 },
+        { id: '7d', label: '7d', ms: 7 * 86400000 },
+        { id: '30d', label: '30d', ms: 30 * 86400000 }
+    ];
+    // Most recent recorded spikes listed under the history chart
+    const SPIKES_LISTED = 5;
+    // Most recent finished sessions compared under the running one
+    const SESSIONS_LISTED = 10;
+    const FORECAST_MODEL_LABELS = { hybrid: 'Hybrid', linear: 'Linear', ewma: 'EWMA', holt: "Holt's trend" };
+
+    // Restored by VS Code after a reload so the panel is not blank while waiting for data
+    let viewState = Object.assign({ dashboard: null, selected: {}, range: '24h', hidden: {} }, vscode.getState());
+    let lastValues = {};
+    // Simulated time minus the wall clock while a simulation runs
+    let clockOffset = 0;
+
+    function saveState() {
+        vscode.setState(viewState);
+    }
+
+    function escapeHtml(value) {
+        return String(value)
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+
+    function getStatusColor(percent) {
+        if (percent >= 90) return '#ff4d4d';
+        if (percent >= 70) return '#ff9f43';
+        if (percent >= 50) return '#ffd32b';
+        return '#00d2d3';
+    }
+
+    function getUsedPercent(bucket) {
+        return bucket.limit > 0 ? (bucket.requests / bucket.limit) * 100 : 0;
+    }
+
+    function formatDuration(iso) {
+        const diff = new Date(iso).getTime() - (Date.now() + clockOffset);
+        const hours = Math.floor(diff / 3600000);
+        const mins = Math.floor((diff % 3600000) / 60000);
+        return `${hours}h ${mins}m`;
+    }
+
+    function generateSparkline(bucketId, history) {
+        if (history.length < 2) {
+            return `<svg class="sparkline sparkline-empty" viewBox="0 0 100 20" preserveAspectRatio="none">
+                <line x1="0" y1="10" x2="100" y2="10" stroke="#4ec9b0" stroke-width="1" stroke-dasharray="2,2" />
+              </svg>`;
+        }
+
+        const minUsage = Math.min(...history.map(h => h.usage));
+        const maxUsage = Math.max(...history.map(h => h.usage));
+        const range = Math.max(1, maxUsage - minUsage);
+
+        // Discovered bucket ids may contain dots, which are not valid in url(#id) references
+        const gradientId = `sparkGradient-${bucketId.replace(/[^A-Za-z0-9_-]/g, '-')}`;
+        const points = history
+            .map((h, i) => {
+                const x = (i / (history.length - 1)) * 100;
+                const y = 20 - ((h.usage - minUsage) / range) * 15 - 2; // Leave some padding
+                return `${x},${y}`;
+            })
+            .join(' ');
+
+        return `<svg class="sparkline" viewBox="0 0 100 20" preserveAspectRatio="none">
+              <defs>
+                <linearGradient id="${gradientId}" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="0%" stop-color="#4ec9b0" stop-opacity="0.5" />
+                  <stop offset="100%" stop-color="#4ec9b0" stop-opacity="0" />
+                </linearGradient>
+              </defs>
+              <path d="M 0 20 L ${points} L 100 20 Z" fill="url(#${gradientId})" />
+              <polyline points="${points}" fill="none" stroke="#4ec9b0" stroke-width="1.5" stroke-linecap="round" stroke-linejoin="round" />
+            </svg>`;
+    }
+
+    function getAnalyticsSection(account, bucket, analytics, active) {
+        const forecast = analytics.projectedUsageAtReset || 0;
+        const forecastClass = forecast >= 100 ? 'forecast-critical' : forecast >= 80 ? 'forecast-warning' : 'forecast-ok';
+        const trendIcon = analytics.trend === 'up' ? '📈' : analytics.trend === 'down' ? '📉' : '➡️';
+
+        return `<div class="analytics-body${active ? ' active' : ''}" data-bucket="${escapeHtml(bucket.id)}">
+            <div class="card-header">
+                <div class="card-title">📊 Predictive Analytics · ${escapeHtml(bucket.label)}</div>
+                <div class="stat-value trend-value">${trendIcon} ${analytics.trend.toUpperCase()}</div>
+            </div>
+            ${getSpikeBannerHtml(account, bucket, analytics.spike)}
+            <div class="analytics-grid">
+                <div class="stat-item">
+                    <div class="stat-label">Burn Rate</div>
+                    <div class="stat-value ${Math.abs(analytics.burnRatePerHour) > 10 ? 'trend-up' : ''}">
+                        ${analytics.burnRatePerHour > 0 ? '🔥' : '💚'} ${Math.abs(analytics.burnRatePerHour).toFixed(1)}%/h
+                    </div>
+                </div>
+                <div class="stat-item">
+                    <div class="stat-label">Depletion</div>
+                    <div class="stat-value">${analytics.hoursUntilDepletion ? analytics.hoursUntilDepletion.toFixed(1) + 'h' : 'Stable'}</div>
+                    ${getRangeHtml(analytics.hoursUntilDepletionLow, analytics.hoursUntilDepletionHigh, 'h')}
+                </div>
+                <div class="stat-item">
+                    <div class="stat-label">Forecasted Usage</div>
+                    <div class="stat-value ${forecastClass}">
+                        ${analytics.projectedUsageAtReset ? analytics.projectedUsageAtReset + '%' : '--'}
+                    </div>
+                    ${getRangeHtml(analytics.projectedUsageAtResetLow, analytics.projectedUsageAtResetHigh, '%')}
+                </div>
+                <div class="stat-item">
+                    <div class="stat-label">Reset In</div>
+                    <div class="stat-value">${formatDuration(bucket.renewsAt)}</div>
+                </div>
+                ${getPaceItems(analytics.pace)}
+            </div>
+            <div class="graph-container">
+                ${generateSparkline(bucket.id, analytics.sessionHistory)}
+                <div class="graph-caption">Usage Pulse (current cycle) · ${FORECAST_MODEL_LABELS[analytics.forecastModel] || analytics.forecastModel} forecast (${analytics.forecastSource})</div>
+            </div>
+        </div>`;
+    }
+
+    // Range of a forecast; an open upper end means not before the reset
+    function getRangeHtml(low, high, unit) {
+        if (low === null || low === undefined) {
+            return '';
+        }
+        const format = value => (unit === '%' ? value.toFixed(0) : value.toFixed(1)) + unit;
+        if (high !== null && format(low) === format(high)) {
+            return '';
+        }
+        return `<div class="stat-range">${format(low)} – ${high === null ? 'after reset' : format(high)}</div>`;
+    }
+
+    function getSpikeActionHtml(account, bucket, expected) {
+        return expected
+            ? '<span class="spike-expected">Expected</span>'
+            : `<button class="spike-ack" data-account="${escapeHtml(account.id)}" data-bucket="${escapeHtml(bucket)}">This is expected</button>`;
+    }
+
+    function getSpikeBannerHtml(account, bucket, spike) {
+        if (!spike) {
+            return '';
+        }
+        const spikes = getHistory(account).spikes || [];
+        const open = spikes.find(event => event.bucket === bucket.id && event.endedAt === null);
+        const baseline = spike.baselinePerHour !== null ? ` (baseline ${spike.baselinePerHour.toFixed(1)}%/h)` : '';
+        const exhaustion = spike.hoursUntilExhaustion !== null ? ` · runs out in ~${spike.hoursUntilExhaustion.toFixed(1)}h at this rate` : '';
+        return `<div class="spike-banner">
+                <span>🚨 Usage spike: ${spike.ratePerHour.toFixed(0)}%/h since ${new Date(spike.since).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}${baseline}${exhaustion}</span>
+                ${getSpikeActionHtml(account, bucket.id, open && open.expected)}
+            </div>`;
+    }
+
+    function getSpikesHtml(account) {
+        const history = getHistory(account);
+        const spikes = (history.spikes || []).slice(-SPIKES_LISTED).reverse();
+        if (spikes.length === 0) {
+            return '';
+        }
+        const labels = {};
+        history.series.forEach(s => (labels[s.bucket] = s.label));
+        const rows = spikes
+            .map(spike => {
+                const started = new Date(spike.startedAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+                const duration = spike.endedAt === null ? 'ongoing' : `${Math.max(1, Math.round((spike.endedAt - spike.startedAt) / 60000))}m`;
+                return `<tr>
+                    <td class="spike-time">${started}</td>
+                    <td>${escapeHtml(labels[spike.bucket] || spike.bucket)}</td>
+                    <td>${spike.peakRatePerHour.toFixed(0)}%/h</td>
+                    <td>${spike.usedAtStart.toFixed(0)}% → ${spike.usedAtEnd.toFixed(0)}%</td>
+                    <td>${duration}</td>
+                    <td>${getSpikeActionHtml(account, spike.bucket, spike.expected)}</td>
+                </tr>`;
+            })
+            .join('');
+        return `<table class="spikes-table">
+                <thead><tr><th>🚨 Spike</th><th>Quota</th><th>Peak</th><th>Usage</th><th>Duration</th><th></th></tr></thead>
+                <tbody>${rows}</tbody>
+            </table>`;
+    }
+
+    function getPaceItems(pace) {
+        if (!pace) {
+            return '';
+        }
+        const delta = Math.abs(pace.deltaPercent).toFixed(0);
+        const status = pace.status === 'ahead' ? `${delta}% ahead` : pace.status === 'behind' ? `${delta}% behind` : 'On pace';
+        return `<div class="stat-item">
+                    <div class="stat-label">Pace (target ${pace.targetPercent}%)</div>
+                    <div class="stat-value ${pace.status === 'ahead' ? 'trend-up' : pace.status === 'behind' ? 'trend-down' : ''}">🎯 ${status}</div>
+                </div>
+                <div class="stat-item">
+                    <div class="stat-label">Allowance</div>
+                    <div class="stat-value">${pace.allowancePerHour !== null ? formatRequests(pace.allowancePerHour) + ' req/h' : '--'}</div>
+                </div>`;
+    }
+
+    function getDashboardHtml(account, focusBucket) {
+        if (!account.data || !account.analytics) {
+            return `<div class="dashboard">
+        <div class="card" data-status-color="#ff4d4d">
+            <div class="card-header">
+                <div class="card-title">${account.error ? 'Unable to fetch quota' : 'Loading...'}</div>
+            </div>
+            <div class="stats-row"><span>${escapeHtml(account.error || 'Waiting for the first refresh')}</span></div>
+        </div>
+    </div>`;
+        }
+
+        const { data, analytics } = account;
+        const staleBanner = account.staleSince !== null && account.staleSince !== undefined
+            ? `<div class="stale-banner">🕓 ${account.error ? `Refresh failed: ${escapeHtml(account.error)}. ` : ''}Showing data from ${new Date(account.staleSince).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.</div>`
+            : '';
+        // Keep the tab the user picked, then the requested bucket, then the first one
+        const preferred = viewState.selected[account.name] || focusBucket;
+        const focused = data.buckets.some(b => b.id === preferred) ? preferred : data.buckets[0] && data.buckets[0].id;
+        const withAnalytics = data.buckets.filter(bucket => analytics[bucket.id]);
+
+        const cards = data.buckets
+            .map(bucket => {
+                const percent = getUsedPercent(bucket);
+                const remaining = bucket.limit - bucket.requests;
+                const key = `${account.name}|${bucket.id}`;
+                return `<div class="card" data-status-color="${getStatusColor(percent)}">
+            <div class="card-header">
+                <div class="card-title">${escapeHtml(bucket.label)}</div>
+            </div>
+            <div class="usage-value">
+                <span class="animate-number" data-key="${escapeHtml(key)}" data-target="${percent}" data-decimals="1">0</span><span>%</span>
+            </div>
+            <div class="progress-container">
+                <div class="progress-bar" data-key="${escapeHtml(key)}" data-width="${Math.min(percent, 100)}"></div>
+            </div>
+            <div class="stats-row">
+                <span>${bucket.requests}/${bucket.limit}</span>
+                <span>${Number.isInteger(remaining) ? remaining : remaining.toFixed(1)} remaining</span>
+            </div>
+        </div>`;
+            })
+            .join('');
+
+        return `<div class="dashboard${staleBanner ? ' stale' : ''}">
+        ${staleBanner}
+        ${getHistoryPanelHtml(account)}
+
+        <div class="card analytics-panel" data-account="${escapeHtml(account.name)}">
+            <div class="analytics-tabs">
+                ${withAnalytics
+                    .map(bucket => `<button class="analytics-tab${bucket.id === focused ? ' active' : ''}" data-bucket="${escapeHtml(bucket.id)}">${escapeHtml(bucket.label)}</button>`)
+                    .join('')}
+            </div>
+            ${withAnalytics.map(bucket => getAnalyticsSection(account, bucket, analytics[bucket.id], bucket.id === focused)).join('')}
+        </div>
+
+        ${cards}
+
+        ${getProjectsPanelHtml(account)}
+
+        ${getSessionsPanelHtml(account)}
+    </div>`;
+    }
+
+    function formatRequests(value) {
+        return Number.isInteger(value) ? String(value) : value.toFixed(1);
+    }
+
+    function getProjectsPanelHtml(account) {
+        const projects = account.projects || [];
+        if (projects.length === 0 || !account.data) {
+            return '';
+        }
+        const buckets = account.data.buckets;
+        const header = buckets.map(bucket => `<th>${escapeHtml(bucket.label)}</th>`).join('');
+        const rows = projects
+            .map(project => {
+                const cells = buckets
+                    .map(bucket => {
+                        const today = project.today[bucket.id] || 0;
+                        const total = project.total[bucket.id] || 0;
+                        return `<td><span class="project-today">${formatRequests(today)}</span> <span class="project-total">/ ${formatRequests(total)}</span></td>`;
+                    })
+                    .join('');
+                return `<tr><td class="project-name">${escapeHtml(project.name)}</td>${cells}</tr>`;
+            })
+            .join('');
+
+        return `<div class="card projects-panel">
+            <div class="card-header">
+                <div class="card-title">🗂️ Usage by Project</div>
+                <div class="projects-legend">requests today / all recorded</div>
+            </div>
+            <table class="projects-table">
+                <thead><tr><th>Project</th>${header}</tr></thead>
+                <tbody>${rows}</tbody>
+            </table>
+        </div>`;
+    }
+
+    function formatElapsed(ms) {
+        const minutes = Math.round(ms / 60000);
+        return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+    }
+
+    function getSessionsPanelHtml(account) {
+        const past = (account.sessions || []).slice(-SESSIONS_LISTED).reverse();
+        const sessions = (account.session ? [Object.assign({ running: true }, account.session)] : []).concat(past);
+        if (sessions.length === 0 || !account.data) {
+            return '';
+        }
+        const buckets = account.data.buckets;
+        // Usage per hour makes sessions of different lengths comparable; the fastest is highlighted
+        const rate = (session, bucket) => {
+            const stats = session.buckets[bucket.id];
+            const hours = (session.end - session.start) / 3600000;
+            return stats && hours > 0 ? stats.used / hours : null;
+        };
+        const fastest = {};
+        buckets.forEach(bucket => {
+            const rates = sessions.map(session => rate(session, bucket)).filter(r => r !== null);
+            fastest[bucket.id] = sessions.length > 1 && rates.length > 0 ? Math.max(...rates) : null;
+        });
+        const header = buckets.map(bucket => `<th>${escapeHtml(bucket.label)}</th>`).join('');
+        const rows = sessions
+            .map(session => {
+                const started = new Date(session.start).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+                const cells = buckets
+                    .map(bucket => {
+                        const stats = session.buckets[bucket.id];
+                        if (!stats) {
+                            return '<td>--</td>';
+                        }
+                        const perHour = rate(session, bucket);
+                        const highlight = perHour !== null && perHour > 0 && perHour === fastest[bucket.id] ? ' session-fastest' : '';
+                        return `<td class="${highlight.trim()}">
+                            <span class="session-used">${stats.limitHit ? '🛑 ' : ''}${stats.used >= 0 ? '+' : ''}${stats.used.toFixed(1)}%</span>
+                            <span class="session-detail">${formatRequests(stats.requests)} req${stats.resets > 0 ? ` · ${stats.resets} ${stats.resets === 1 ? 'reset' : 'resets'}` : ''}</span>
+                            <span class="session-detail">${perHour !== null ? perHour.toFixed(1) : '--'}%/h avg · ${stats.peakBurnRate.toFixed(1)}%/h peak</span>
+                        </td>`;
+                    })
+                    .join('');
+                const name = escapeHtml(session.name || 'Unnamed session');
+                return `<tr${session.running ? ' class="session-running"' : ''}>
+                    <td class="session-name">${name}${session.running ? ' <span class="session-badge">running</span>' : ''}</td>
+                    <td class="session-started">${started}</td>
+                    <td>${formatElapsed(session.end - session.start)}</td>
+                    ${cells}
+                </tr>`;
+            })
+            .join('');
+
+        return `<div class="card sessions-panel">
+            <div class="card-header">
+                <div class="card-title">⏱️ Sessions</div>
+                <div class="projects-legend">usage · requests and resets crossed · average and peak burn rate · 🛑 limit hit</div>
+            </div>
+            <table class="projects-table sessions-table">
+                <thead><tr><th>Session</th><th>Started</th><th>Duration</th>${header}</tr></thead>
+                <tbody>${rows}</tbody>
+            </table>
+        </div>`;
+    }
+
+    function getHistory(account) {
+        return account.history || { series: [], resets: [], spikes: [] };
+    }
+
+    function getHistoryPanelHtml(account) {
+        const series = getHistory(account).series;
+        const hidden = viewState.hidden[account.name] || [];
+        const ranges = RANGES.map(range => {
+            const disabled = range.id === 'session' && !account.sessionStart;
+            return `<button class="range-button${range.id === viewState.range ? ' active' : ''}" data-range="${range.id}"${disabled ? ' disabled' : ''}>${range.label}</button>`;
+        }).join('');
+        const legend = series
+            .map((s, i) => `<button class="legend-item${hidden.includes(s.bucket) ? ' hidden' : ''}" data-bucket="${escapeHtml(s.bucket)}">
+                <span class="legend-swatch" data-color="${SERIES_COLORS[i % SERIES_COLORS.length]}"></span>${escapeHtml(s.label)}
+            </button>`)
+            .join('');
+
+        return `<div class="card history-panel" data-account="${escapeHtml(account.name)}">
+            <div class="card-header">
+                <div class="card-title">📈 Usage History</div>
+                <div class="range-selector">${ranges}</div>
+            </div>
+            <div class="history-chart"></div>
+            <div class="chart-legend">${legend}</div>
+            ${getSpikesHtml(account)}
+        </div>`;
+    }
+
+    function getRange(account, now) {
+        if (viewState.range === 'session' && account.sessionStart) {
+            return { start: account.sessionStart, end: now };
+        }
+        const range = RANGES.find(r => r.id === viewState.range && r.ms) || RANGES[1];
+        return { start: now - range.ms, end: now };
+    }
+
+    function drawCharts() {
+        const dashboard = viewState.dashboard;
+        if (!dashboard) return;
+        document.querySelectorAll('.history-panel').forEach(panel => {
+            const account = dashboard.accounts.find(a => a.name === panel.getAttribute('data-account'));
+            if (!account) return;
+            const history = getHistory(account);
+            const hidden = viewState.hidden[account.name] || [];
+            const series = history.series
+                .map((s, i) => Object.assign({}, s, { color: SERIES_COLORS[i % SERIES_COLORS.length] }))
+                .filter(s => !hidden.includes(s.bucket));
+            const range = getRange(account, dashboard.updatedAt);
+            window.CosmicChart.draw(panel.querySelector('.history-chart'), {
+                series,
+                resets: history.resets,
+                spikes: history.spikes || [],
+                start: range.start,
+                end: range.end,
+                thresholds: dashboard.thresholds || { warning: 70, critical: 90 }
+            });
+        });
+    }
+
+    function bindHistoryControls() {
+        document.querySelectorAll('.history-panel').forEach(panel => {
+            const account = panel.getAttribute('data-account');
+            panel.querySelectorAll('.range-button').forEach(button => {
+                button.addEventListener('click', () => {
+                    // One range for every account so their charts stay comparable
+                    viewState.range = button.getAttribute('data-range');
+                    document.querySelectorAll('.range-button').forEach(b => {
+                        b.classList.toggle('active', b.getAttribute('data-range') === viewState.range);
+                    });
+                    saveState();
+                    drawCharts();
+                });
+            });
+            panel.querySelectorAll('.legend-item').forEach(item => {
+                item.addEventListener('click', () => {
+                    const bucket = item.getAttribute('data-bucket');
+                    const hidden = viewState.hidden[account] || [];
+                    viewState.hidden[account] = hidden.includes(bucket)
+                        ? hidden.filter(b => b !== bucket)
+                        : hidden.concat(bucket);
+                    item.classList.toggle('hidden');
+                    saveState();
+                    drawCharts();
+                });
+            });
+        });
+    }
+
+    function render(dashboard) {
+        clockOffset = dashboard.simulation ? dashboard.updatedAt - Date.now() : 0;
+        const root = document.getElementById('root');
+        const multiple = dashboard.accounts.length > 1;
+        const sections = dashboard.accounts
+            .map(account => {
+                const heading = multiple ? `<h2 class="account-name">${escapeHtml(account.name)}</h2>` : '';
+                return `<section class="account-section">${heading}${getDashboardHtml(account, dashboard.focusBucket)}</section>`;
+            })
+            .join('');
+        root.innerHTML = `<div class="${multiple ? 'accounts' : ''}">${sections}</div>`;
+
+        // Inline style attributes are blocked by the CSP, so colours are applied through the CSSOM
+        root.querySelectorAll('[data-status-color]').forEach(el => {
+            el.style.setProperty('--status-color', el.getAttribute('data-status-color'));
+        });
+        root.querySelectorAll('[data-color]').forEach(el => {
+            el.style.setProperty('--series-color', el.getAttribute('data-color'));
+        });
+        // Bars start from their previous width so live updates slide rather than restart
+        root.querySelectorAll('.progress-bar').forEach(bar => {
+            bar.style.width = Math.min(lastValues[bar.getAttribute('data-key')] || 0, 100) + '%';
+        });
+
+        const updatedAt = document.getElementById('updated-at');
+        updatedAt.textContent = dashboard.simulation
+            ? `SIMULATED · ${dashboard.simulation} · ${new Date(dashboard.updatedAt).toLocaleTimeString()}`
+            : `Updated ${new Date(dashboard.updatedAt).toLocaleTimeString()}`;
+        updatedAt.classList.toggle('simulated', !!dashboard.simulation);
+
+        bindAnalyticsTabs();
+        bindHistoryControls();
+        bindSpikeButtons();
+        drawCharts();
+        setTimeout(() => {
+            animateBars();
+            animateNumbers();
+        }, 100);
+    }
+
     function animateBars() {
         const bars = document.querySelectorAll('.progress-bar');
         bars.forEach(bar => {
@@ -11,11 +505,15 @@
 
     function animateNumbers() {
         const numbers = document.querySelectorAll('.animate-number');
+        const values = {};
         numbers.forEach(num => {
+            const key = num.getAttribute('data-key');
             const target = parseFloat(num.getAttribute('data-target'));
+            // Live updates animate from the previously shown value instead of from zero
+            const start = lastValues[key] || 0;
             const duration = 1500;
-            const start = 0;
             let startTime = null;
+            values[key] = target;
 
             function step(timestamp) {
                 if (!startTime) startTime = timestamp;
@@ -28,16 +526,74 @@
             }
             window.requestAnimationFrame(step);
         });
+        lastValues = values;
     }
 
-    document.addEventListener('DOMContentLoaded', () => {
-        setTimeout(() => {
-            animateBars();
-            animateNumbers();
-        }, 100);
+    function bindSpikeButtons() {
+        document.querySelectorAll('.spike-ack').forEach(button => {
+            button.addEventListener('click', () => {
+                button.disabled = true;
+                vscode.postMessage({
+                    type: 'acknowledgeSpike',
+                    account: button.getAttribute('data-account'),
+                    bucket: button.getAttribute('data-bucket')
+                });
+            });
+        });
+    }
+
+    function bindAnalyticsTabs() {
+        document.querySelectorAll('.analytics-panel').forEach(panel => {
+            const account = panel.getAttribute('data-account');
+            const tabs = panel.querySelectorAll('.analytics-tab');
+            tabs.forEach(tab => {
+                tab.addEventListener('click', () => {
+                    const bucket = tab.getAttribute('data-bucket');
+                    tabs.forEach(t => t.classList.toggle('active', t === tab));
+                    panel.querySelectorAll('.analytics-body').forEach(body => {
+                        body.classList.toggle('active', body.getAttribute('data-bucket') === bucket);
+                    });
+                    viewState.selected[account] = bucket;
+                    saveState();
+                });
+            });
+        });
+    }
+
+    window.addEventListener('message', event => {
+        const message = event.data;
+        if (message && message.type === 'update') {
+            viewState.dashboard = message.state;
+            saveState();
+            render(message.state);
+            document.getElementById('refresh').disabled = false;
+        } else if (message && message.type === 'focus' && viewState.dashboard) {
+            // Status bar clicks focus a bucket of the active account, which is listed first
+            const active = viewState.dashboard.accounts[0];
+            if (active) {
+                viewState.selected[active.name] = message.bucket;
+                saveState();
+                render(viewState.dashboard);
+            }
+        }
     });
 
-    window.refresh = function () {
-        vscode.postMessage({ command: 'refresh' });
-    };
+    document.getElementById('refresh').addEventListener('click', () => {
+        const button = document.getElementById('refresh');
+        button.disabled = true;
+        vscode.postMessage({ type: 'refresh' });
+        // Re-enable even if the refresh produced no update, e.g. because one was already running
+        setTimeout(() => (button.disabled = false), 30000);
+    });
+
+    let resizeTimer = null;
+    window.addEventListener('resize', () => {
+        clearTimeout(resizeTimer);
+        resizeTimer = setTimeout(drawCharts, 150);
+    });
+
+    if (viewState.dashboard) {
+        render(viewState.dashboard);
+    }
+    vscode.postMessage({ type: 'ready' });
 })();
@@ -0,0 +1,159 @@
+import { QuotaData, QuotaBucket, QuotaBucketId, QuotaSample } from './types';
+
+interface KnownBucket {
+  id: QuotaBucketId;
+  label: string;
+  shortLabel: string;
+  cycleHours: number;
+}
+
+// Buckets the extension has always known about keep their historical ids, labels and
+// cycle lengths; anything else the API reports is derived from its path
+const KNOWN_BUCKETS: Record<string, KnownBucket> = {
+  subscription: { id: 'subscription', label: 'Subscription', shortLabel: 'S', cycleHours: 5 },
+  freeToolCalls: { id: 'toolCalls', label: 'Free Tool Calls', shortLabel: 'T', cycleHours: 24 },
+  'search.hourly': { id: 'search', label: 'Search (Hourly)', shortLabel: 'H', cycleHours: 1 }
+};
+
+const KNOWN_ORDER = Object.values(KNOWN_BUCKETS).map((b) => b.id);
+
+const PERIOD_HOURS: Record<string, number> = {
+  minutely: 1 / 60,
+  hourly: 1,
+  daily: 24,
+  weekly: 168,
+  monthly: 720
+};
+
+const DEFAULT_CYCLE_HOURS = 24;
+
+function isBucketShape(value: Record<string, unknown>): boolean {
+  return (
+    typeof value.limit === 'number' &&
+    typeof value.requests === 'number' &&
+    typeof value.renewsAt === 'string'
+  );
+}
+
+function humanize(segment: string): string {
+  const words = segment
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim();
+  return words.replace(/\b\w/g, (c) => c.toUpperCase());
+}
+
+function describePath(path: string[]): { id: QuotaBucketId; label: string } {
+  const known = KNOWN_BUCKETS[path.join('.')];
+  if (known) {
+    return { id: known.id, label: known.label };
+  }
+  const [head, ...rest] = path;
+  const label =
+    rest.length > 0 ? `${humanize(head)} (${rest.map(humanize).join(' ')})` : humanize(head);
+  return { id: path.join('.'), label };
+}
+
+/**
+ * Walks an API response and returns every `{ limit, requests, renewsAt }` object as a
+ * bucket, so new quotas show up without code changes. Known buckets come first in their
+ * usual order, followed by any others in response order.
+ */
+export function discoverBuckets(response: unknown): QuotaBucket[] {
+  const buckets: QuotaBucket[] = [];
+
+  const walk = (value: unknown, path: string[]) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return;
+    }
+    const record = value as Record<string, unknown>;
+    if (path.length > 0 && isBucketShape(record)) {
+      buckets.push({
+        ...describePath(path),
+        limit: record.limit as number,
+        requests: record.requests as number,
+        renewsAt: record.renewsAt as string,
+        path
+      });
+      return;
+    }
+    for (const [key, child] of Object.entries(record)) {
+      walk(child, [...path, key]);
+    }
+  };
+  walk(response, []);
+
+  const rank = (bucket: QuotaBucket) => {
+    const index = KNOWN_ORDER.indexOf(bucket.id);
+    return index === -1 ? KNOWN_ORDER.length : index;
+  };
+  return buckets
+    .map((bucket, index) => ({ bucket, index }))
+    .sort((a, b) => rank(a.bucket) - rank(b.bucket) || a.index - b.index)
+    .map(({ bucket }) => bucket);
+}
+
+export function getBucket(data: QuotaData, id: QuotaBucketId): QuotaBucket | undefined {
+  return data.buckets.find((b) => b.id === id);
+}
+
+export function getUsedPercent(bucket: QuotaSample): number {
+  return bucket.limit > 0 ? (bucket.requests / bucket.limit) * 100 : 0;
+}
+
+/**
+ * Abbreviation used in the compact "all" status bar view, e.g. `S`, `T`, `H`.
+ */
+export function getShortLabel(bucket: QuotaBucket): string {
+  const known = Object.values(KNOWN_BUCKETS).find((b) => b.id === bucket.id);
+  if (known) {
+    return known.shortLabel;
+  }
+  return bucket.path.map((segment) => segment.charAt(0).toUpperCase()).join('');
+}
+
+/**
+ * Fallback cycle length for a bucket before any reset has been observed, guessed from
+ * period words in its id such as `hourly` or `daily`.
+ */
+export function getDefaultCycleHours(id: QuotaBucketId): number {
+  const known = Object.values(KNOWN_BUCKETS).find((b) => b.id === id);
+  if (known) {
+    return known.cycleHours;
+  }
+  const period = id
+    .split('.')
+    .map((segment) => PERIOD_HOURS[segment.toLowerCase()])
+    .find((hours) => hours !== undefined);
+  return period ?? DEFAULT_CYCLE_HOURS;
+}
+
+/**
+ * Rebuilds quota data from stored samples, e.g. to replay recorded history. Known buckets
+ * get their usual labels; others are labelled from their id like discovered ones.
+ */
+export function toQuotaData(samples: Record<QuotaBucketId, QuotaSample>): QuotaData {
+  const response: Record<string, unknown> = {};
+  for (const [id, sample] of Object.entries(samples)) {
+    const known = Object.entries(KNOWN_BUCKETS).find(([, bucket]) => bucket.id === id);
+    const path = known ? known[0].split('.') : id.split('.');
+    let parent = response;
+    for (const segment of path.slice(0, -1)) {
+      parent = (parent[segment] ??= {}) as Record<string, unknown>;
+    }
+    parent[path[path.length - 1]] = { ...sample };
+  }
+  return { buckets: discoverBuckets(response) };
+}
+
+export function getBucketSamples(data: QuotaData): Record<QuotaBucketId, QuotaSample> {
+  const samples: Record<QuotaBucketId, QuotaSample> = {};
+  for (const bucket of data.buckets) {
+    samples[bucket.id] = {
+      limit: bucket.limit,
+      requests: bucket.requests,
+      renewsAt: bucket.renewsAt
+    };
+  }
+  return samples;
+}
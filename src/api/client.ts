@@ -1,24 +1,113 @@
+import * as http from 'http';
 import * as https from 'https';
-import { QuotaData } from './types';
+import * as net from 'net';
+import * as tls from 'tls';
+import { QuotaData, ClientOptions } from './types';
+import { discoverBuckets } from './buckets';
+import { resolveProxy, openTunnel, getProxyAuthorization } from './proxy';
+import {
+  AuthError,
+  RateLimitError,
+  NetworkError,
+  TimeoutError,
+  ServerError,
+  SchemaError
+} from './errors';
+import { withRetry, parseRetryAfter, RetryOptions, DEFAULT_RETRY_OPTIONS } from './retry';
 
-export class QuotaClient {
-  constructor(private apiKey: string) {}
+export const DEFAULT_BASE_URL = 'https://api.synthetic.new';
 
+const DEFAULT_OPTIONS: ClientOptions = {
+  baseUrl: DEFAULT_BASE_URL,
+  strictSSL: true,
+  timeoutMs: 10000
+};
+
+/**
+ * Source of quota data for `QuotaService`: the API client, or a simulation standing in for it.
+ */
+export interface QuotaProvider {
+  fetchQuotaData(): Promise<QuotaData>;
+}
+
+export class QuotaClient implements QuotaProvider {
+  constructor(
+    private apiKey: string,
+    private options: ClientOptions = DEFAULT_OPTIONS,
+    private retryOptions: RetryOptions = DEFAULT_RETRY_OPTIONS
+  ) {}
+
+  /**
+   * Fetches current quotas, retrying transient failures with backoff. Rejects with a
+   * QuotaApiError subclass describing what went wrong.
+   */
   public async fetchQuotaData(): Promise<QuotaData> {
+    return withRetry(() => this.requestQuotaData(), this.retryOptions);
+  }
+
+  private async requestQuotaData(): Promise<QuotaData> {
+    // Keep any path prefix of the base URL, e.g. a mock server mounted under /synthetic
+    const base = this.options.baseUrl.endsWith('/')
+      ? this.options.baseUrl
+      : `${this.options.baseUrl}/`;
+    const url = new URL('v2/quotas', base);
+    const isHttps = url.protocol === 'https:';
+    const proxy = resolveProxy(url, {
+      proxy: this.options.proxy,
+      noProxy: this.options.noProxy,
+      env: process.env
+    });
+    const tunnel =
+      proxy && isHttps
+        ? await openTunnel(proxy, url, this.options.timeoutMs, this.options.strictSSL)
+        : undefined;
+
     return new Promise((resolve, reject) => {
-      const options = {
-        hostname: 'api.synthetic.new',
-        path: '/v2/quotas',
+      const headers: http.OutgoingHttpHeaders = {
+        Authorization: `Bearer ${this.apiKey}`,
+        Accept: 'application/json',
+        'User-Agent': 'VSCode-Synthetic-Quota-Extension/0.2.5'
+      };
+      const options: https.RequestOptions = {
+        hostname: url.hostname,
+        port: url.port || undefined,
+        path: `${url.pathname}${url.search}`,
         method: 'GET',
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          Accept: 'application/json',
-          'User-Agent': 'VSCode-Synthetic-Quota-Extension/0.2.5'
-        },
-        timeout: 10000
+        headers,
+        timeout: this.options.timeoutMs
       };
 
-      const req = https.request(options, (res) => {
+      if (proxy && !isHttps) {
+        // Plain HTTP goes through the proxy with an absolute request URI
+        options.hostname = proxy.hostname;
+        options.port = proxy.port || 80;
+        options.path = url.href;
+        const auth = getProxyAuthorization(proxy);
+        if (auth) {
+          headers['Proxy-Authorization'] = auth;
+        }
+      }
+
+      if (isHttps) {
+        options.rejectUnauthorized = this.options.strictSSL;
+        if (this.options.ca && this.options.ca.length > 0) {
+          // Extra certificates extend the bundled roots instead of replacing them
+          options.ca = [...tls.rootCertificates, ...this.options.ca];
+        }
+        if (tunnel) {
+          options.agent = false;
+          options.createConnection = () =>
+            tls.connect({
+              socket: tunnel,
+              servername: url.hostname,
+              ca: options.ca,
+              rejectUnauthorized: this.options.strictSSL
+            }) as net.Socket;
+        }
+      }
+
+      const transport = isHttps ? https : http;
+      const req = transport.request(options, (res) => {
         let data = '';
 
         res.on('data', (chunk) => {
@@ -28,88 +117,37 @@ export class QuotaClient {
         res.on('end', () => {
           if (res.statusCode === 200) {
             try {
-              const parsed = JSON.parse(data);
-              if (!this.isValidQuotaData(parsed)) {
-                reject(new Error('Invalid API response structure'));
+              const buckets = discoverBuckets(JSON.parse(data));
+              if (buckets.length === 0) {
+                reject(new SchemaError());
                 return;
               }
-              resolve(parsed);
+              resolve({ buckets });
             } catch {
-              reject(new Error('Failed to parse API response'));
+              reject(new SchemaError('Failed to parse API response'));
             }
-          } else if (res.statusCode === 401) {
-            reject(new Error('Invalid API key'));
+          } else if (res.statusCode === 401 || res.statusCode === 403) {
+            reject(new AuthError(res.statusCode));
           } else if (res.statusCode === 429) {
-            reject(new Error('Rate limited. Please try again later'));
+            const retryAfter = res.headers['retry-after'];
+            reject(new RateLimitError(parseRetryAfter(retryAfter, Date.now())));
           } else {
-            reject(new Error(`HTTP ${res.statusCode}: ${data}`));
+            reject(new ServerError(res.statusCode ?? 0, data));
           }
         });
       });
 
       req.on('error', (error) => {
-        reject(new Error(`Network error: ${error.message}`));
+        reject(new NetworkError(error.message));
       });
 
       req.on('timeout', () => {
         req.destroy();
-        reject(new Error('Request timeout'));
+        tunnel?.destroy();
+        reject(new TimeoutError());
       });
 
       req.end();
     });
   }
-
-  private isValidQuotaData(data: unknown): data is QuotaData {
-    if (typeof data !== 'object' || data === null) {
-      return false;
-    }
-
-    const d = data as Record<string, unknown>;
-
-    // Check subscription
-    if (!d.subscription || typeof d.subscription !== 'object') {
-      return false;
-    }
-    const sub = d.subscription as Record<string, unknown>;
-    if (
-      typeof sub.limit !== 'number' ||
-      typeof sub.requests !== 'number' ||
-      typeof sub.renewsAt !== 'string'
-    ) {
-      return false;
-    }
-
-    // Check freeToolCalls
-    if (!d.freeToolCalls || typeof d.freeToolCalls !== 'object') {
-      return false;
-    }
-    const tool = d.freeToolCalls as Record<string, unknown>;
-    if (
-      typeof tool.limit !== 'number' ||
-      typeof tool.requests !== 'number' ||
-      typeof tool.renewsAt !== 'string'
-    ) {
-      return false;
-    }
-
-    // Check search
-    if (!d.search || typeof d.search !== 'object') {
-      return false;
-    }
-    const search = d.search as Record<string, unknown>;
-    if (!search.hourly || typeof search.hourly !== 'object') {
-      return false;
-    }
-    const hourly = search.hourly as Record<string, unknown>;
-    if (
-      typeof hourly.limit !== 'number' ||
-      typeof hourly.requests !== 'number' ||
-      typeof hourly.renewsAt !== 'string'
-    ) {
-      return false;
-    }
-
-    return true;
-  }
 }
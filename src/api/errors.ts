@@ -0,0 +1,74 @@
+export type QuotaErrorKind = 'auth' | 'rateLimit' | 'network' | 'timeout' | 'server' | 'schema';
+
+/**
+ * Base class for failures talking to the Synthetic API. `retryable` tells the retry
+ * loop whether another attempt can succeed without user intervention.
+ */
+export abstract class QuotaApiError extends Error {
+  public abstract readonly kind: QuotaErrorKind;
+  public abstract readonly retryable: boolean;
+
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class AuthError extends QuotaApiError {
+  public readonly kind = 'auth';
+  public readonly retryable = false;
+
+  constructor(public readonly status: number) {
+    super('Invalid API key');
+  }
+}
+
+export class RateLimitError extends QuotaApiError {
+  public readonly kind = 'rateLimit';
+  public readonly retryable = true;
+
+  constructor(public readonly retryAfterMs?: number) {
+    super('Rate limited. Please try again later');
+  }
+}
+
+export class NetworkError extends QuotaApiError {
+  public readonly kind = 'network';
+  public readonly retryable = true;
+
+  constructor(detail: string) {
+    super(`Network error: ${detail}`);
+  }
+}
+
+export class TimeoutError extends QuotaApiError {
+  public readonly kind = 'timeout';
+  public readonly retryable = true;
+
+  constructor(message = 'Request timeout') {
+    super(message);
+  }
+}
+
+export class ServerError extends QuotaApiError {
+  public readonly kind = 'server';
+  public readonly retryable: boolean;
+
+  constructor(
+    public readonly status: number,
+    body: string
+  ) {
+    super(`HTTP ${status}: ${body}`);
+    // Only 5xx responses are transient; other unexpected statuses will not change on retry
+    this.retryable = status >= 500;
+  }
+}
+
+export class SchemaError extends QuotaApiError {
+  public readonly kind = 'schema';
+  public readonly retryable = false;
+
+  constructor(message = 'Invalid API response structure') {
+    super(message);
+  }
+}
@@ -0,0 +1,121 @@
+import * as http from 'http';
+import * as https from 'https';
+import * as net from 'net';
+import { NetworkError, TimeoutError } from './errors';
+
+export interface ProxySettings {
+  proxy?: string;
+  noProxy?: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+function readEnv(env: NodeJS.ProcessEnv, name: string): string | undefined {
+  return env[name] || env[name.toLowerCase()] || undefined;
+}
+
+/**
+ * Matches a host against NO_PROXY style entries: `*`, exact hosts, domain suffixes
+ * (`example.com` or `.example.com`) and optional `:port` qualifiers.
+ */
+export function isNoProxy(hostname: string, port: string, entries: string[]): boolean {
+  const host = hostname.toLowerCase();
+  return entries
+    .map((entry) => entry.trim().toLowerCase())
+    .filter((entry) => entry.length > 0)
+    .some((entry) => {
+      if (entry === '*') {
+        return true;
+      }
+      const [entryHost, entryPort] = entry.split(':');
+      if (entryPort && entryPort !== port) {
+        return false;
+      }
+      const suffix = entryHost.replace(/^\*?\./, '');
+      return host === suffix || host.endsWith(`.${suffix}`);
+    });
+}
+
+/**
+ * Picks the proxy for a request: an explicit proxy setting wins over the
+ * HTTPS_PROXY/HTTP_PROXY environment variables, and NO_PROXY excludes hosts from both.
+ */
+export function resolveProxy(target: URL, settings: ProxySettings): URL | undefined {
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+  const noProxy = [
+    ...(settings.noProxy ?? []),
+    ...(readEnv(settings.env, 'NO_PROXY') ?? '').split(',')
+  ];
+  if (isNoProxy(target.hostname, port, noProxy)) {
+    return undefined;
+  }
+
+  const candidate =
+    settings.proxy ||
+    (target.protocol === 'https:'
+      ? readEnv(settings.env, 'HTTPS_PROXY') || readEnv(settings.env, 'HTTP_PROXY')
+      : readEnv(settings.env, 'HTTP_PROXY'));
+  if (!candidate) {
+    return undefined;
+  }
+
+  try {
+    // Proxies are commonly configured without a scheme, e.g. "proxy.corp:8080"
+    return new URL(/^[a-z]+:\/\//i.test(candidate) ? candidate : `http://${candidate}`);
+  } catch {
+    return undefined;
+  }
+}
+
+export function getProxyAuthorization(proxy: URL): string | undefined {
+  if (!proxy.username) {
+    return undefined;
+  }
+  const credentials = `${decodeURIComponent(proxy.username)}:${decodeURIComponent(proxy.password)}`;
+  return `Basic ${Buffer.from(credentials).toString('base64')}`;
+}
+
+/**
+ * Opens a CONNECT tunnel through the proxy to the target host. The returned socket is
+ * raw TCP; TLS to the target is negotiated on top of it by the caller.
+ */
+export function openTunnel(
+  proxy: URL,
+  target: URL,
+  timeoutMs: number,
+  rejectUnauthorized: boolean
+): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const targetPort = target.port || (target.protocol === 'https:' ? '443' : '80');
+    const headers: http.OutgoingHttpHeaders = { Host: `${target.hostname}:${targetPort}` };
+    const auth = getProxyAuthorization(proxy);
+    if (auth) {
+      headers['Proxy-Authorization'] = auth;
+    }
+
+    const transport = proxy.protocol === 'https:' ? https : http;
+    const req = transport.request({
+      hostname: proxy.hostname,
+      port: proxy.port || (proxy.protocol === 'https:' ? 443 : 80),
+      method: 'CONNECT',
+      path: `${target.hostname}:${targetPort}`,
+      headers,
+      timeout: timeoutMs,
+      rejectUnauthorized
+    });
+
+    req.on('connect', (res, socket) => {
+      if (res.statusCode === 200) {
+        resolve(socket);
+      } else {
+        socket.destroy();
+        reject(new NetworkError(`proxy refused tunnel with HTTP ${res.statusCode}`));
+      }
+    });
+    req.on('timeout', () => {
+      req.destroy();
+      reject(new TimeoutError('Proxy connection timeout'));
+    });
+    req.on('error', (error) => reject(new NetworkError(`proxy ${error.message}`)));
+    req.end();
+  });
+}
@@ -0,0 +1,76 @@
+import { QuotaApiError, RateLimitError } from './errors';
+
+export interface RetryOptions {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  maxAttempts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+/**
+ * Parses a Retry-After header, given either as delay-seconds or as an HTTP date.
+ */
+export function parseRetryAfter(header: string | undefined, now: number): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+  const value = header.trim();
+  if (/^\d+$/.test(value)) {
+    return parseInt(value, 10) * 1000;
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * `baseDelayMs * 2^attempt`, capped at `maxDelayMs`.
+ */
+export function getBackoffDelay(
+  attempt: number,
+  options: RetryOptions,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt));
+  return Math.round(random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `operation`, retrying retryable API errors. A 429 waits at least as long as its
+ * Retry-After header asks; if that is longer than `maxDelayMs` the error is surfaced
+ * instead so the caller can reschedule.
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  wait: (ms: number) => Promise<void> = sleep
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      const isLastAttempt = attempt >= options.maxAttempts - 1;
+      if (!(error instanceof QuotaApiError) || !error.retryable || isLastAttempt) {
+        throw error;
+      }
+
+      let delay = getBackoffDelay(attempt, options);
+      if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+        if (error.retryAfterMs > options.maxDelayMs) {
+          throw error;
+        }
+        delay = Math.max(delay, error.retryAfterMs);
+      }
+      await wait(delay);
+    }
+  }
+}
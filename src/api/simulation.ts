@@ -0,0 +1,161 @@
+import { QuotaData, QuotaSnapshot } from './types';
+import { QuotaProvider } from './client';
+import { discoverBuckets, toQuotaData } from './buckets';
+
+const MS_PER_HOUR = 3600000;
+// Step used to add up a scripted burn rate over a cycle
+const STEP_HOURS = 1 / 60;
+
+export type SimulationScenario = 'steady' | 'spike' | 'reset';
+
+/**
+ * Quota data at a point in simulated time.
+ */
+export type QuotaScript = (now: number) => QuotaData;
+
+/**
+ * Simulated time: starts at `start` and runs `speed` times faster than the wall clock.
+ */
+export class PlaybackClock {
+  private origin: number;
+
+  constructor(
+    private start: number,
+    private speed: number,
+    private realNow: () => number = Date.now
+  ) {
+    this.origin = realNow();
+  }
+
+  public now(): number {
+    return this.start + (this.realNow() - this.origin) * this.speed;
+  }
+
+  public getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Changes the speed from here on, without jumping the simulated time.
+   */
+  public setSpeed(speed: number) {
+    this.start = this.now();
+    this.origin = this.realNow();
+    this.speed = speed;
+  }
+}
+
+/**
+ * Stands in for `QuotaClient`, answering every fetch with the script's data at the current
+ * playback time.
+ */
+export class SimulatedQuotaProvider implements QuotaProvider {
+  constructor(
+    private script: QuotaScript,
+    private clock: PlaybackClock
+  ) {}
+
+  public async fetchQuotaData(): Promise<QuotaData> {
+    return this.script(this.clock.now());
+  }
+}
+
+interface ScriptedBucket {
+  path: string[];
+  limit: number;
+  cycleHours: number;
+  // How far into its cycle the bucket is when the simulation starts
+  phaseHours: number;
+  // Burn rate in %/h at a number of hours since the start; negative before it
+  rate: (hours: number) => number;
+}
+
+const SCENARIOS: Record<SimulationScenario, ScriptedBucket[]> = {
+  // Healthy to critical within a subscription cycle, then depleted for the last hour
+  steady: [
+    { path: ['subscription'], limit: 1000, cycleHours: 5, phaseHours: 0.5, rate: () => 25 },
+    { path: ['freeToolCalls'], limit: 500, cycleHours: 24, phaseHours: 6, rate: () => 3 },
+    { path: ['search', 'hourly'], limit: 100, cycleHours: 1, phaseHours: 0.2, rate: () => 60 }
+  ],
+  // A quiet hour, then twenty minutes of runaway usage
+  spike: [
+    {
+      path: ['subscription'],
+      limit: 1000,
+      cycleHours: 5,
+      phaseHours: 1,
+      rate: (hours) => (hours >= 1 && hours < 4 / 3 ? 150 : 4)
+    },
+    { path: ['freeToolCalls'], limit: 500, cycleHours: 24, phaseHours: 6, rate: () => 1 },
+    { path: ['search', 'hourly'], limit: 100, cycleHours: 1, phaseHours: 0.2, rate: () => 20 }
+  ],
+  // Every bucket close to its limit and minutes away from renewing
+  reset: [
+    { path: ['subscription'], limit: 1000, cycleHours: 5, phaseHours: 4.8, rate: () => 18 },
+    { path: ['freeToolCalls'], limit: 500, cycleHours: 24, phaseHours: 23.5, rate: () => 3 },
+    { path: ['search', 'hourly'], limit: 100, cycleHours: 1, phaseHours: 0.9, rate: () => 90 }
+  ]
+};
+
+/**
+ * A generated scenario starting at `start`, answered in the shape of an API response. Usage
+ * in each cycle is the scripted burn rate added up since the cycle began, capped at the limit.
+ */
+export function createScenario(scenario: SimulationScenario, start: number): QuotaScript {
+  return (now) => {
+    const response: Record<string, unknown> = {};
+    for (const bucket of SCENARIOS[scenario]) {
+      const hours = (now - start) / MS_PER_HOUR;
+      const intoCycle =
+        (((bucket.phaseHours + hours) % bucket.cycleHours) + bucket.cycleHours) % bucket.cycleHours;
+      let used = 0;
+      for (let t = hours - intoCycle; t < hours && used < 100; t += STEP_HOURS) {
+        used += bucket.rate(t) * Math.min(STEP_HOURS, hours - t);
+      }
+
+      let parent = response;
+      for (const segment of bucket.path.slice(0, -1)) {
+        parent = (parent[segment] ??= {}) as Record<string, unknown>;
+      }
+      parent[bucket.path[bucket.path.length - 1]] = {
+        limit: bucket.limit,
+        requests: Math.round((Math.min(100, used) / 100) * bucket.limit),
+        renewsAt: new Date(now + (bucket.cycleHours - intoCycle) * MS_PER_HOUR).toISOString()
+      };
+    }
+    return { buckets: discoverBuckets(response) };
+  };
+}
+
+/**
+ * Replays recorded snapshots, e.g. an exported history, as if the first one was taken at
+ * `start`. Reset times move along with the snapshots, and the last one is held once the
+ * recording runs out.
+ */
+export function createTracePlayback(snapshots: QuotaSnapshot[], start: number): QuotaScript {
+  if (snapshots.length === 0) {
+    throw new Error('The trace contains no snapshots');
+  }
+  const sorted = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+  const shift = start - sorted[0].timestamp;
+  const frames = sorted.map((snapshot) =>
+    toQuotaData(
+      Object.fromEntries(
+        Object.entries(snapshot.buckets).map(([id, sample]) => [
+          id,
+          {
+            ...sample,
+            renewsAt: new Date(new Date(sample.renewsAt).getTime() + shift).toISOString()
+          }
+        ])
+      )
+    )
+  );
+  return (now) => {
+    let index = 0;
+    while (index < sorted.length - 1 && sorted[index + 1].timestamp + shift <= now) {
+      index++;
+    }
+    return frames[index];
+  };
+}
@@ -1,21 +1,27 @@
+/**
+ * One quota counter reported by the API. `path` is where it was found in the response,
+ * e.g. `['search', 'hourly']`; `id` is a stable identifier derived from it.
+ */
+export interface QuotaBucket {
+  id: string;
+  label: string;
+  limit: number;
+  requests: number;
+  renewsAt: string;
+  path: string[];
+}
+
 export interface QuotaData {
-  subscription: {
-    limit: number;
-    requests: number;
-    renewsAt: string;
-  };
-  search: {
-    hourly: {
-      limit: number;
-      requests: number;
-      renewsAt: string;
-    };
-  };
-  freeToolCalls: {
-    limit: number;
-    requests: number;
-    renewsAt: string;
-  };
+  buckets: QuotaBucket[];
+}
+
+export interface ClientOptions {
+  baseUrl: string;
+  proxy?: string;
+  noProxy?: string[];
+  strictSSL: boolean;
+  ca?: string[];
+  timeoutMs: number;
 }
 
 export interface QuotaDisplayConfig {
@@ -24,22 +30,141 @@ export interface QuotaDisplayConfig {
   description: string;
 }
 
-export type StatusBarDisplayMode = 'subscription' | 'toolCalls' | 'search' | 'all' | 'average';
+// 'all', 'average' or the id of a single bucket
+export type StatusBarDisplayMode = 'all' | 'average' | string;
+export type StatusBarAlignment = 'left' | 'right';
+
+export interface StatusBarLayout {
+  // One item per bucket instead of a single combined item
+  perBucket: boolean;
+  // Buckets that get an item, in display order; empty means all
+  buckets: string[];
+  alignment: StatusBarAlignment;
+  priority: number;
+  // Bucket items are hidden while their usage percentage is below this
+  hideBelow: number;
+}
+
 export type TimeDisplayMode = 'relative' | 'absolute' | 'both';
 export type CompactAnalyticsMode = 'trend' | 'depletion' | 'burn' | 'auto' | 'off';
+export type ForecastModelId = 'hybrid' | 'linear' | 'ewma' | 'holt';
+export type ForecastModelSetting = ForecastModelId | 'auto';
+export type SpikeSensitivity = 'off' | 'low' | 'medium' | 'high';
+
+export type QuotaBucketId = string;
+
+export interface QuotaSample {
+  limit: number;
+  requests: number;
+  renewsAt: string;
+}
+
+export interface QuotaSnapshot {
+  timestamp: number;
+  buckets: Record<QuotaBucketId, QuotaSample>;
+}
+
+export interface HistoryRetentionOptions {
+  retentionDays: number;
+  downsampleAfterHours: number;
+  downsampleMinutes: number;
+}
+
+export interface AccountProfile {
+  id: string;
+  name: string;
+}
 
 export interface SessionTracker {
   sessionStartTime: number;
-  initialSubscriptionQuota: number;
-  initialToolCallsQuota: number;
-  initialSearchQuota: number;
-  history: Array<{ timestamp: number; subscriptionUsed: number }>;
+  initialUsage: Record<QuotaBucketId, number>;
+  // Set when the session was started by name rather than with the window
+  name?: string | null;
+  // Usage counted per bucket up to the latest sample; missing in sessions shared by older
+  // versions, which only know their starting point
+  counted?: Record<QuotaBucketId, CountedSessionUsage>;
+}
+
+export interface SessionBucketUsage {
+  // Percentage points and requests used in the session, adding up the share of every cycle
+  percent: number;
+  requests: number;
+  // Resets crossed since the session started
+  resets: number;
+}
+
+export interface CountedSessionUsage extends SessionBucketUsage {
+  last: QuotaSample;
 }
 
 export interface QuotaAnalytics {
   burnRatePerHour: number;
   hoursUntilDepletion: number | null;
+  // Earliest and latest depletion within the forecast band; null when not before the reset
+  hoursUntilDepletionLow: number | null;
+  hoursUntilDepletionHigh: number | null;
   trend: 'up' | 'down' | 'stable';
   projectedUsageAtReset: number | null;
+  projectedUsageAtResetLow: number | null;
+  projectedUsageAtResetHigh: number | null;
+  forecastModel: ForecastModelId;
+  // 'backtest' when the model was picked automatically, 'default' while history is too short
+  forecastSource: 'backtest' | 'default' | 'configured';
   sessionHistory: Array<{ timestamp: number; usage: number }>;
+  cycleHours: number;
+  cycleSource: 'learned' | 'configured';
+  // Null unless a pacing target is set for the bucket
+  pace: BucketPace | null;
+  // Set while usage climbs much faster than its recent baseline
+  spike: UsageSpike | null;
+}
+
+export interface UsageSpike {
+  // Start of the window the spike rate was measured over, and the usage at that point
+  since: number;
+  usedAtStart: number;
+  ratePerHour: number;
+  // Rate over the preceding samples; null when there are too few to compare against
+  baselinePerHour: number | null;
+  // Time until the quota runs out if the spike continues
+  hoursUntilExhaustion: number | null;
+}
+
+export interface WorkingHours {
+  // Minutes after local midnight
+  start: number;
+  end: number;
+  // Days of the week as in Date.getDay(), 0 = Sunday
+  days: number[];
 }
+
+export interface PacingOptions {
+  // Percent of each bucket's limit to use per cycle; buckets without a target are not paced
+  targets: Record<QuotaBucketId, number>;
+  // Spread the target over these hours only; null spreads it evenly over the whole cycle
+  workingHours: WorkingHours | null;
+}
+
+export interface BucketPace {
+  targetPercent: number;
+  // Where the target curve is at this point of the cycle
+  expectedPercent: number;
+  // Used minus expected, in percentage points; positive means ahead of pace
+  deltaPercent: number;
+  status: 'ahead' | 'behind' | 'onPace';
+  // Requests per hour that use up exactly the rest of the target by the reset
+  allowancePerHour: number | null;
+  // Hours left in the cycle that count towards the curve
+  remainingHours: number;
+}
+
+export interface ResetEvent {
+  bucket: QuotaBucketId;
+  timestamp: number;
+  previousRenewsAt: string;
+  renewsAt: string;
+  requestsBefore: number;
+  requestsAfter: number;
+}
+
+export type BucketAnalytics = Record<QuotaBucketId, QuotaAnalytics>;
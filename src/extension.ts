@@ -1,50 +1,741 @@
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import { QuotaService } from './services/quotaService';
+import { HistoryStore } from './monitor/historyStore';
+import { ApiKeyStore } from './services/apiKeyStore';
+import { QuotaCache } from './services/quotaCache';
+import { MemoryStorage } from './services/memoryStorage';
+import { AccountManager } from './services/accountManager';
+import { QuotaClient, DEFAULT_BASE_URL } from './api/client';
+import {
+  PlaybackClock,
+  QuotaScript,
+  SimulatedQuotaProvider,
+  SimulationScenario,
+  createScenario,
+  createTracePlayback
+} from './api/simulation';
+import { getUsedPercent } from './api/buckets';
+import { AuthError, RateLimitError } from './api/errors';
 import { StatusBarManager } from './ui/statusBar';
-import { QuotaWebview } from './ui/webview/QuotaWebview';
+import { NotificationManager } from './ui/notifications';
+import { AlertOptions, ResetNotificationMode } from './monitor/alertPolicy';
+import { getNextRefresh } from './monitor/refreshScheduler';
+import { parseWorkingHours } from './monitor/pacing';
+import { WindowCoordinator, SharedQuota } from './services/windowCoordinator';
+import {
+  ProjectActivityTracker,
+  ProjectRef,
+  getFocusWeights,
+  getUsageDeltas,
+  splitUsage
+} from './monitor/projectAttribution';
+import { ProjectUsageStore } from './monitor/projectUsageStore';
+import { SpikeStore } from './monitor/spikeStore';
+import { SessionStore } from './monitor/sessionStore';
+import { SessionSummary } from './monitor/sessionSummary';
+import { QuotaWebview, DashboardHost } from './ui/webview/QuotaWebview';
+import { DashboardState } from './ui/webview/protocol';
+import { buildChartHistory } from './ui/webview/chartData';
+import { QuotaTreeProvider, QuotaTreeHost } from './ui/tree/QuotaTreeProvider';
+import { QuotaTreeNode, buildQuotaTree } from './ui/tree/treeModel';
+import {
+  toHistoryRows,
+  formatHistory,
+  formatProjectUsage,
+  parseHistory,
+  detectHistoryFormat,
+  HistoryExportFilter
+} from './monitor/historyExport';
 import {
   QuotaData,
   StatusBarDisplayMode,
+  StatusBarAlignment,
+  StatusBarLayout,
   TimeDisplayMode,
-  CompactAnalyticsMode
+  CompactAnalyticsMode,
+  HistoryRetentionOptions,
+  QuotaBucketId,
+  AccountProfile,
+  ClientOptions,
+  PacingOptions,
+  ForecastModelSetting,
+  SpikeSensitivity,
+  ResetEvent
 } from './api/types';
 
 const CONFIG_NAMESPACE = 'syntheticQuota';
 
+// Longest range the dashboard chart offers
+const CHART_HISTORY_MS = 30 * 86400000;
+
+// Settings that change how requests are made; clients are rebuilt when any of them change
+const CONNECTION_SETTINGS = [
+  `${CONFIG_NAMESPACE}.apiBaseUrl`,
+  `${CONFIG_NAMESPACE}.caCertificates`,
+  'http.proxy',
+  'http.proxyStrictSSL',
+  'http.proxySupport',
+  'http.noProxy'
+];
+
+interface AccountState {
+  profile: AccountProfile;
+  service: QuotaService;
+  refreshTimer?: NodeJS.Timeout;
+  currentData: QuotaData | null;
+  // When `currentData` was fetched
+  fetchedAt: number;
+  // `currentData` was loaded from the cache or the latest refresh failed
+  stale: boolean;
+  // Stays set when the account is re-initialized, so a running session carries on
+  sessionStarted: boolean;
+  cache: QuotaCache;
+  isFetching: boolean;
+  fetchError: Error | null;
+  // Scheduled refreshes are skipped until then after a 429 with Retry-After
+  retryNotBefore: number;
+  lastRefresh: number;
+  projects: ProjectUsageStore;
+  spikes: SpikeStore;
+  sessions: SessionStore;
+  // Resets the analytics detected since the last refresh, for the reset notifications
+  resets: ResetEvent[];
+}
+
+interface Simulation {
+  state: AccountState;
+  clock: PlaybackClock;
+  label: string;
+  timer: NodeJS.Timeout;
+}
+
+const PAUSED_CONTEXT = 'syntheticQuota.paused';
+const SIMULATING_CONTEXT = 'syntheticQuota.simulating';
+const SIMULATION_ACCOUNT: AccountProfile = { id: 'simulation', name: 'Simulation' };
+// Simulated data is fetched this often in real time, whatever the playback speed
+const SIMULATION_REFRESH_MS = 2000;
+// Without editor activity for this long the user counts as idle and polling backs off
+const IDLE_AFTER_MS = 15 * 60000;
+// How often countdowns in stale data are redrawn while no refresh succeeds
+const STALE_TICK_MS = 60000;
+
 class QuotaMonitor {
-  private service: QuotaService;
+  private accountManager: AccountManager;
+  private apiKeys: ApiKeyStore;
   private statusBar: StatusBarManager;
-  private refreshTimer?: NodeJS.Timeout;
-  private currentData: QuotaData | null = null;
-  private isFetching = false;
-  private fetchError: string | null = null;
+  private notifications: NotificationManager;
+  public readonly quotaTree: QuotaTreeProvider;
+  private accounts = new Map<string, AccountState>();
+  private coordinator: WindowCoordinator;
+  private activity: ProjectActivityTracker;
+  // Focused time per window and project at each account's last attribution
+  private focusTotals = new Map<string, Record<string, Record<string, number>>>();
+  private paused = false;
+  private focused = vscode.window.state.focused;
+  private lastActivity = Date.now();
+  private staleTimer?: NodeJS.Timeout;
+  // While set, the status bar, quota view and dashboard show the simulation instead
+  private simulation?: Simulation;
 
   constructor(private context: vscode.ExtensionContext) {
-    this.service = new QuotaService();
-    this.statusBar = new StatusBarManager('syntheticQuota.showDetails');
+    this.coordinator = new WindowCoordinator(context.globalStorageUri.fsPath);
+    this.activity = new ProjectActivityTracker(this.coordinator.windowId);
+    this.accountManager = new AccountManager(context.globalState);
+    this.apiKeys = new ApiKeyStore(context.secrets);
+    this.statusBar = new StatusBarManager(
+      'syntheticQuota.showDetails',
+      'syntheticQuota.setApiKey',
+      'syntheticQuota.refresh',
+      'syntheticQuota.resume',
+      'syntheticQuota.stopSimulation',
+      this.getStatusBarLayout()
+    );
+    this.notifications = new NotificationManager(
+      context.globalState,
+      this.getAlertOptions(),
+      'syntheticQuota.showDetails',
+      'syntheticQuota.acknowledgeSpike'
+    );
+    this.quotaTree = new QuotaTreeProvider(this.treeHost, 'syntheticQuota.showDetails');
 
     this.context.subscriptions.push(
-      this.statusBar.item,
-      vscode.workspace.onDidChangeConfiguration(this.onConfigurationChanged, this)
+      vscode.workspace.onDidChangeConfiguration(this.onConfigurationChanged, this),
+      vscode.window.onDidChangeWindowState((windowState) => {
+        this.focused = windowState.focused;
+        this.onActivity();
+        this.updateProjectActivity();
+        this.rescheduleAll();
+      }),
+      vscode.window.onDidChangeActiveTextEditor(() => {
+        this.onActivity();
+        this.updateProjectActivity();
+      }),
+      vscode.workspace.onDidChangeWorkspaceFolders(() => this.updateProjectActivity()),
+      vscode.window.onDidChangeTextEditorSelection(() => this.onActivity()),
+      vscode.workspace.onDidChangeTextDocument(() => this.onActivity()),
+      this.coordinator.onDidChangeLeadership((leader) => {
+        if (leader) {
+          this.rescheduleAll();
+        } else {
+          this.accounts.forEach((state) => this.stopAutoRefresh(state));
+        }
+      }),
+      this.coordinator.onDidReceiveQuota((shared) => this.applySharedQuota(shared)),
+      this.coordinator.onDidChangePaused((paused) => this.applyPaused(paused)),
+      this.apiKeys.onDidChange((accountId) => this.initializeAccount(accountId))
     );
 
     this.initialize();
   }
 
-  private async initialize(): Promise<void> {
-    const apiKey = this.getApiKey();
+  /**
+   * Sets up the coordinator and every account. Runs again when a connection setting
+   * changes; failures are shown instead of being lost.
+   */
+  private initialize(): void {
+    this.setUp().catch((error) => {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Cosmic Quota: Could not start monitoring: ${message}`);
+    });
+  }
+
+  private async setUp(): Promise<void> {
+    await this.coordinator.start();
+    this.applyPaused(this.coordinator.isPaused());
+    this.updateProjectActivity();
+    await this.apiKeys.migrateFromSettings();
+    await Promise.all(
+      this.accountManager.getAccounts().map((profile) => this.initializeAccount(profile.id))
+    );
+  }
+
+  private getAccountState(accountId: string): AccountState | undefined {
+    const profile = this.accountManager.getAccount(accountId);
+    if (!profile) {
+      return undefined;
+    }
+
+    let state = this.accounts.get(accountId);
+    if (!state) {
+      state = this.createAccountState(profile, this.context.globalState);
+      this.accounts.set(accountId, state);
+    }
+    state.profile = profile;
+    return state;
+  }
+
+  private createAccountState(
+    profile: AccountProfile,
+    storage: vscode.Memento,
+    clock?: () => number
+  ): AccountState {
+    const { retentionDays } = this.getHistoryOptions();
+    const service = new QuotaService(
+      new HistoryStore(storage, this.getHistoryOptions(), profile.id),
+      clock
+    );
+    service.setCycleOverrides(this.getCycleOverrides());
+    service.setPacing(this.getPacingOptions());
+    service.setForecastModel(this.getForecastModel());
+    service.setSpikeSensitivity(this.getSpikeSensitivity());
+    const state: AccountState = {
+      projects: new ProjectUsageStore(storage, retentionDays, profile.id),
+      spikes: new SpikeStore(storage, retentionDays, profile.id),
+      sessions: new SessionStore(storage, retentionDays, profile.id),
+      cache: new QuotaCache(storage, profile.id),
+      profile,
+      service,
+      currentData: null,
+      fetchedAt: 0,
+      stale: false,
+      sessionStarted: false,
+      isFetching: false,
+      fetchError: null,
+      retryNotBefore: 0,
+      lastRefresh: 0,
+      resets: []
+    };
+    service.onReset((event) => state.resets.push(event));
+    return state;
+  }
+
+  private getActiveState(): AccountState | undefined {
+    return this.simulation?.state ?? this.getAccountState(this.accountManager.getActiveAccountId());
+  }
+
+  private isActive(state: AccountState): boolean {
+    return this.simulation
+      ? state === this.simulation.state
+      : state.profile.id === this.accountManager.getActiveAccountId();
+  }
+
+  private isSimulated(state: AccountState): boolean {
+    return state === this.simulation?.state;
+  }
+
+  // Every account, plus the simulated one while a simulation runs
+  private getStates(): AccountState[] {
+    const states = [...this.accounts.values()];
+    return this.simulation ? [...states, this.simulation.state] : states;
+  }
+
+  private async initializeAccount(accountId: string): Promise<void> {
+    const state = this.getAccountState(accountId);
+    if (!state) {
+      return;
+    }
+
+    const apiKey = await this.apiKeys.get(accountId);
+    this.stopAutoRefresh(state);
+    // The last fetch stands in until the first refresh, unless it is too old to trust
+    const cached = state.cache.get(this.getConfig().staleDataLimitMinutes * 60000);
+    state.currentData = cached?.data ?? null;
+    state.fetchedAt = cached?.timestamp ?? 0;
+    state.stale = !!cached;
+    state.fetchError = null;
+
     if (!apiKey) {
-      this.statusBar.showSetup();
+      state.service.clearApiKey();
+      if (this.isActive(state)) {
+        this.updateUI();
+      }
+      return;
+    }
+
+    state.service.setApiKey(apiKey, this.getClientOptions());
+    if (cached && this.isActive(state)) {
+      this.updateUI();
+    }
+    // Other windows start from the leader's data instead of calling the API themselves
+    const shared = this.coordinator.isLeader() ? undefined : await this.coordinator.read(accountId);
+    if (shared) {
+      await this.applySharedQuota(shared);
+    } else {
+      await this.refreshAccount(state);
+    }
+  }
+
+  /**
+   * Takes over data another window fetched. The leader also raises the notifications for
+   * it, so each alert appears once rather than in every window.
+   */
+  private async applySharedQuota(shared: SharedQuota): Promise<void> {
+    const state = this.accounts.get(shared.accountId);
+    if (
+      !state ||
+      !state.service.hasApiKey() ||
+      state.isFetching ||
+      shared.timestamp <= state.lastRefresh
+    ) {
+      return;
+    }
+
+    if (!state.sessionStarted) {
+      await this.startSession(state, shared.data);
+    }
+    await state.service.applySharedQuota(shared.data, shared.timestamp);
+    const resets = state.resets.splice(0);
+    state.currentData = shared.data;
+    state.fetchedAt = shared.timestamp;
+    state.stale = false;
+    state.fetchError = null;
+    state.retryNotBefore = 0;
+    state.lastRefresh = shared.timestamp;
+    if (this.coordinator.isLeader()) {
+      await this.notifyAccount(state, shared.data, resets);
+      await this.recordSpikes(state, shared.data);
+      await this.attributeUsage(state);
+    }
+
+    this.scheduleRefresh(state);
+    if (this.isActive(state)) {
+      this.updateUI();
+    }
+    this.updateViews();
+  }
+
+  /**
+   * Continues the session of the windows that are already open, so session usage means the
+   * same everywhere; the first window starts a new one. A named session runs until it is
+   * ended, so it is continued after a restart too.
+   */
+  private async startSession(state: AccountState, data: QuotaData): Promise<void> {
+    const { trackSession } = this.getConfig();
+    const shared = this.isSimulated(state)
+      ? undefined
+      : (await this.coordinator.read(state.profile.id))?.session;
+    if (shared && (shared.name || (trackSession && !this.coordinator.isFirstWindow()))) {
+      state.service.setSession(shared);
+    } else {
+      state.service.initializeSession(data, trackSession);
+    }
+    state.sessionStarted = true;
+  }
+
+  /**
+   * Starts a named session on the active account. A running session is finished first, so
+   * its summary is kept.
+   */
+  public async beginSession(): Promise<void> {
+    const state = this.getActiveState();
+    if (!state?.currentData) {
+      vscode.window.showWarningMessage('Sessions can start once quota data has been fetched.');
       return;
     }
+    const name = await vscode.window.showInputBox({
+      prompt: 'Name the session, e.g. after the task you are starting',
+      placeHolder: 'refactor auth module'
+    });
+    if (name === undefined || !state.currentData) {
+      return;
+    }
+    await this.finishSession(state);
+    state.service.startSession(state.currentData, name.trim() || null);
+    state.sessionStarted = true;
+    await this.shareSession(state);
+    this.updateUI();
+    this.updateViews();
+  }
+
+  public async endSession(): Promise<void> {
+    const state = this.getActiveState();
+    const summary = state && (await this.finishSession(state));
+    if (!state || !summary) {
+      vscode.window.showInformationMessage('No session is running.');
+      return;
+    }
+    this.updateUI();
+    this.updateViews();
 
-    this.service.setApiKey(apiKey);
-    await this.refreshQuota();
-    this.startAutoRefresh();
+    const labels = new Map(state.currentData?.buckets.map((bucket) => [bucket.id, bucket.label]));
+    const usage = Object.entries(summary.buckets)
+      .map(
+        ([bucket, stats]) =>
+          `${labels.get(bucket) ?? bucket} ${stats.used >= 0 ? '+' : ''}${stats.used.toFixed(1)}% (${stats.requests} requests)`
+      )
+      .join(', ');
+    const minutes = Math.round((summary.end - summary.start) / 60000);
+    const duration =
+      minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+    vscode.window.showInformationMessage(
+      `Session${summary.name ? ` "${summary.name}"` : ''} ended after ${duration}: ${usage}.`
+    );
   }
 
-  private getApiKey(): string {
-    return vscode.workspace.getConfiguration(CONFIG_NAMESPACE).get<string>('apiKey', '').trim();
+  public resetSessionBaseline() {
+    const state = this.getActiveState();
+    if (!state?.currentData || !state.service.getSession()) {
+      vscode.window.showInformationMessage('No session is running.');
+      return;
+    }
+    state.service.resetSessionBaseline(state.currentData);
+    this.updateUI();
+    this.updateViews();
+  }
+
+  /**
+   * Ends the account's session and keeps its summary.
+   */
+  private async finishSession(state: AccountState): Promise<SessionSummary | null> {
+    const summary = state.service.endSession();
+    if (summary) {
+      await state.sessions.add(summary);
+      await this.shareSession(state);
+    }
+    return summary;
+  }
+
+  /**
+   * Passes a started or ended session on to the shared data right away, so a restart does
+   * not depend on the next refresh to know about it.
+   */
+  private async shareSession(state: AccountState): Promise<void> {
+    const shared = !this.isSimulated(state) && (await this.coordinator.read(state.profile.id));
+    if (shared) {
+      await this.coordinator.publish({ ...shared, session: state.service.getSession() });
+    }
+  }
+
+  /**
+   * The workspace folder of the active editor, or the window's first folder.
+   */
+  private getCurrentProject(): ProjectRef | null {
+    const uri = vscode.window.activeTextEditor?.document.uri;
+    const folder =
+      (uri && vscode.workspace.getWorkspaceFolder(uri)) ?? vscode.workspace.workspaceFolders?.[0];
+    return folder ? { id: folder.uri.toString(), name: folder.name } : null;
+  }
+
+  private updateProjectActivity(): void {
+    if (this.activity.update(this.getCurrentProject(), this.focused)) {
+      this.coordinator.reportActivity(this.activity.getActivity());
+    }
+  }
+
+  /**
+   * Credits the usage between the last two snapshots to the projects focused in that time,
+   * across all windows. Only the leader attributes, so nothing is counted twice.
+   */
+  private async attributeUsage(state: AccountState): Promise<void> {
+    const [previous, current] = state.service.getHistory().slice(-2);
+    if (!previous || !current) {
+      return;
+    }
+    const activities = [
+      ...(await this.coordinator.readActivities()).filter(
+        (activity) => activity.windowId !== this.coordinator.windowId
+      ),
+      this.activity.getActivity()
+    ];
+    const focus = getFocusWeights(
+      activities,
+      this.focusTotals.get(state.profile.id) ?? {},
+      current.timestamp - previous.timestamp,
+      current.timestamp
+    );
+    this.focusTotals.set(state.profile.id, focus.totals);
+
+    const deltas = getUsageDeltas(previous, current);
+    if (Object.keys(deltas).length > 0) {
+      await state.projects.add(splitUsage(deltas, focus.weights), focus.names, current.timestamp);
+    }
+  }
+
+  /**
+   * Keeps the spike record of every bucket in step with the latest analytics. Only the
+   * leader records, like it notifies.
+   */
+  private async recordSpikes(state: AccountState, data: QuotaData): Promise<void> {
+    const analytics = state.service.getAnalytics(data);
+    const now = state.service.now();
+    for (const bucket of data.buckets) {
+      await state.spikes.update(
+        bucket.id,
+        analytics[bucket.id]?.spike ?? null,
+        getUsedPercent(bucket),
+        now
+      );
+    }
+  }
+
+  /**
+   * Records the bucket's spike as expected and stops spike alerts for it until it resets.
+   */
+  public async acknowledgeSpike(accountId: string, bucket: QuotaBucketId): Promise<void> {
+    const state =
+      accountId === this.simulation?.state.profile.id
+        ? this.simulation.state
+        : this.accounts.get(accountId);
+    if (!state) {
+      return;
+    }
+    await state.spikes.acknowledge(bucket);
+    if (!this.isSimulated(state)) {
+      await this.notifications.muteSpikes(accountId, bucket);
+    }
+    this.updateViews();
+  }
+
+  private async notifyAccount(
+    state: AccountState,
+    data: QuotaData,
+    resets: ResetEvent[]
+  ): Promise<void> {
+    await this.notifications.process(
+      state.profile.id,
+      data,
+      state.service.getAnalytics(data),
+      resets,
+      this.accountManager.getAccounts().length > 1 ? state.profile.name : undefined
+    );
+  }
+
+  private async pickAccount(placeHolder: string): Promise<AccountProfile | undefined> {
+    const accounts = this.accountManager.getAccounts();
+    if (accounts.length === 1) {
+      return accounts[0];
+    }
+
+    const activeId = this.accountManager.getActiveAccountId();
+    const picked = await vscode.window.showQuickPick(
+      accounts.map((profile) => ({
+        label: profile.name,
+        description: profile.id === activeId ? '(active)' : undefined,
+        detail: this.describeAccount(profile.id),
+        profile
+      })),
+      { placeHolder }
+    );
+    return picked?.profile;
+  }
+
+  private describeAccount(accountId: string): string {
+    const state = this.accounts.get(accountId);
+    if (!state || !state.service.hasApiKey()) {
+      return 'No API key set';
+    }
+    if (state.fetchError) {
+      return `Error: ${state.fetchError.message}`;
+    }
+    if (!state.currentData) {
+      return 'Loading...';
+    }
+    const [bucket] = state.currentData.buckets;
+    if (!bucket) {
+      return 'No quotas reported';
+    }
+    return `${bucket.label} ${getUsedPercent(bucket).toFixed(0)}% used`;
+  }
+
+  public async setApiKey(accountId?: string): Promise<void> {
+    const profile = accountId
+      ? this.accountManager.getAccount(accountId)
+      : this.accountManager.getAccount(this.accountManager.getActiveAccountId());
+    if (!profile) {
+      return;
+    }
+
+    const apiKey = await vscode.window.showInputBox({
+      title: `Cosmic Quota: Set API Key (${profile.name})`,
+      prompt: 'Enter your Synthetic API key. It is stored in your system keychain.',
+      placeHolder: 'syn_...',
+      password: true,
+      ignoreFocusOut: true,
+      validateInput: (value) => (value.trim() ? undefined : 'API key cannot be empty')
+    });
+    if (!apiKey) {
+      return;
+    }
+
+    try {
+      await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'Validating Synthetic API key...'
+        },
+        () => new QuotaClient(apiKey.trim(), this.getClientOptions()).fetchQuotaData()
+      );
+    } catch (error) {
+      const message =
+        error instanceof AuthError
+          ? 'The key was rejected by the Synthetic API'
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      const choice = await vscode.window.showErrorMessage(
+        `Could not validate API key: ${message}`,
+        'Try Again'
+      );
+      if (choice === 'Try Again') {
+        await this.setApiKey(profile.id);
+      }
+      return;
+    }
+
+    await this.apiKeys.set(profile.id, apiKey);
+    vscode.window.showInformationMessage(`Synthetic API key saved for ${profile.name}.`);
+  }
+
+  public async clearApiKey(): Promise<void> {
+    const profile = await this.pickAccount('Select the account whose API key to remove');
+    if (!profile) {
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Remove the stored Synthetic API key for ${profile.name}?`,
+      { modal: true },
+      'Remove'
+    );
+    if (choice !== 'Remove') {
+      return;
+    }
+    await this.apiKeys.clear(profile.id);
+  }
+
+  public async addAccount(): Promise<void> {
+    const name = await vscode.window.showInputBox({
+      title: 'Cosmic Quota: Add Account',
+      prompt: 'Name for the new account profile',
+      placeHolder: 'e.g. Team',
+      ignoreFocusOut: true,
+      validateInput: (value) => {
+        if (!value.trim()) {
+          return 'Name cannot be empty';
+        }
+        const exists = this.accountManager
+          .getAccounts()
+          .some((a) => a.name.toLowerCase() === value.trim().toLowerCase());
+        return exists ? 'An account with this name already exists' : undefined;
+      }
+    });
+    if (!name) {
+      return;
+    }
+
+    const profile = await this.accountManager.addAccount(name);
+    await this.accountManager.setActiveAccount(profile.id);
+    this.updateUI();
+    await this.setApiKey(profile.id);
+  }
+
+  public async removeAccount(): Promise<void> {
+    const accounts = this.accountManager.getAccounts();
+    if (accounts.length === 1) {
+      vscode.window.showInformationMessage(
+        'There is only one account. Use "Clear API Key" to remove its key.'
+      );
+      return;
+    }
+
+    const profile = await this.pickAccount('Select the account to remove');
+    if (!profile) {
+      return;
+    }
+
+    const choice = await vscode.window.showWarningMessage(
+      `Remove the account "${profile.name}" together with its API key and history?`,
+      { modal: true },
+      'Remove'
+    );
+    if (choice !== 'Remove') {
+      return;
+    }
+
+    const state = this.accounts.get(profile.id);
+    if (state) {
+      this.stopAutoRefresh(state);
+      await state.service.clearHistory();
+      await state.projects.clear();
+      await state.spikes.clear();
+      await state.sessions.clear();
+      await state.cache.clear();
+      this.accounts.delete(profile.id);
+    }
+    await this.coordinator.forget(profile.id);
+    await this.accountManager.removeAccount(profile.id);
+    await this.apiKeys.clear(profile.id);
+    await this.notifications.forget(profile.id);
+    this.updateUI();
+    this.updateViews();
+  }
+
+  public async switchAccount(): Promise<void> {
+    if (this.accountManager.getAccounts().length === 1) {
+      vscode.window.showInformationMessage(
+        'Only one account is configured. Use "Add Account" to monitor another key.'
+      );
+      return;
+    }
+
+    const profile = await this.pickAccount('Select the account to show in the status bar');
+    if (!profile) {
+      return;
+    }
+    await this.accountManager.setActiveAccount(profile.id);
+    this.updateUI();
+    this.updateViews();
   }
 
   private getConfig() {
@@ -59,83 +750,779 @@ class QuotaMonitor {
         'compactAnalytics',
         'auto'
       ) as CompactAnalyticsMode,
+      format: config.get<string>('statusBarFormat', ''),
       trackSession: config.get<boolean>('trackSessionUsage', true),
+      staleDataLimitMinutes: config.get<number>('staleDataLimitMinutes', 60),
       refreshInterval: config.get<number>('refreshInterval', 300)
     };
   }
 
+  private getClientOptions(): ClientOptions {
+    const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+    const httpConfig = vscode.workspace.getConfiguration('http');
+    const proxySupport = httpConfig.get<string>('proxySupport', 'override');
+
+    const ca: string[] = [];
+    for (const file of config.get<string[]>('caCertificates', [])) {
+      try {
+        ca.push(fs.readFileSync(file, 'utf8'));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showWarningMessage(`Cosmic Quota: Could not read CA certificate: ${message}`);
+      }
+    }
+
+    return {
+      baseUrl: config.get<string>('apiBaseUrl', DEFAULT_BASE_URL).trim() || DEFAULT_BASE_URL,
+      // With proxy support turned off, neither the setting nor the environment is used
+      proxy: proxySupport === 'off' ? undefined : httpConfig.get<string>('proxy') || undefined,
+      noProxy: proxySupport === 'off' ? ['*'] : httpConfig.get<string[]>('noProxy', []),
+      strictSSL: httpConfig.get<boolean>('proxyStrictSSL', true),
+      ca,
+      timeoutMs: 10000
+    };
+  }
+
+  private getHistoryOptions(): HistoryRetentionOptions {
+    const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+    return {
+      retentionDays: config.get<number>('historyRetentionDays', 30),
+      downsampleAfterHours: config.get<number>('historyDownsampleAfterHours', 24),
+      downsampleMinutes: config.get<number>('historyDownsampleMinutes', 15)
+    };
+  }
+
+  private getAlertOptions(): AlertOptions {
+    const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+    const lowQuota = config.get<number>('lowQuotaNotificationThreshold', 0);
+    return {
+      thresholds: lowQuota > 0 ? [lowQuota] : [],
+      bucketThresholds: config.get<Record<QuotaBucketId, number[]>>('notificationThresholds', {}),
+      depletionHours: config.get<number>('depletionWarningHours', 0),
+      hysteresis: config.get<number>('notificationHysteresis', 5),
+      resetNotifications: config.get<ResetNotificationMode>('resetNotifications', 'afterAlert')
+    };
+  }
+
+  private getCycleOverrides(): Record<QuotaBucketId, number> {
+    return vscode.workspace
+      .getConfiguration(CONFIG_NAMESPACE)
+      .get<Record<QuotaBucketId, number>>('cycleHours', {});
+  }
+
+  private getPacingOptions(): PacingOptions {
+    const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+    return {
+      targets: config.get<Record<QuotaBucketId, number>>('pacingTargets', {}),
+      workingHours: parseWorkingHours(
+        config.get<string>('pacingWorkingHours', ''),
+        config.get<number[]>('pacingWorkingDays', [1, 2, 3, 4, 5])
+      )
+    };
+  }
+
+  private getForecastModel(): ForecastModelSetting {
+    return vscode.workspace
+      .getConfiguration(CONFIG_NAMESPACE)
+      .get<ForecastModelSetting>('forecastModel', 'auto');
+  }
+
+  private getSpikeSensitivity(): SpikeSensitivity {
+    return vscode.workspace
+      .getConfiguration(CONFIG_NAMESPACE)
+      .get<SpikeSensitivity>('spikeSensitivity', 'medium');
+  }
+
+  private getSimulationSpeed(): number {
+    return Math.max(
+      1,
+      vscode.workspace.getConfiguration(CONFIG_NAMESPACE).get<number>('simulationSpeed', 60)
+    );
+  }
+
+  private getStatusBarLayout(): StatusBarLayout {
+    const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+    return {
+      perBucket: config.get<string>('statusBarItems', 'single') === 'perBucket',
+      buckets: config.get<string[]>('statusBarBuckets', []),
+      alignment: config.get<StatusBarAlignment>('statusBarAlignment', 'right'),
+      priority: config.get<number>('statusBarPriority', 100),
+      hideBelow: config.get<number>('statusBarHideBelow', 0)
+    };
+  }
+
   private onConfigurationChanged(e: vscode.ConfigurationChangeEvent): void {
     if (e.affectsConfiguration(`${CONFIG_NAMESPACE}.apiKey`)) {
+      // Storing the migrated key fires the secret change listener, which re-initializes
+      this.apiKeys.migrateFromSettings().catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Cosmic Quota: Could not store the API key: ${message}`);
+      });
+    } else if (CONNECTION_SETTINGS.some((setting) => e.affectsConfiguration(setting))) {
       this.initialize();
-    } else if (e.affectsConfiguration(`${CONFIG_NAMESPACE}.refreshInterval`)) {
-      this.startAutoRefresh();
+    } else if (
+      e.affectsConfiguration(`${CONFIG_NAMESPACE}.historyRetentionDays`) ||
+      e.affectsConfiguration(`${CONFIG_NAMESPACE}.historyDownsampleAfterHours`) ||
+      e.affectsConfiguration(`${CONFIG_NAMESPACE}.historyDownsampleMinutes`)
+    ) {
+      this.accounts.forEach((state) => {
+        state.service.configureHistory(this.getHistoryOptions());
+        state.projects.configure(this.getHistoryOptions().retentionDays);
+        state.spikes.configure(this.getHistoryOptions().retentionDays);
+        state.sessions.configure(this.getHistoryOptions().retentionDays);
+      });
+    } else if (e.affectsConfiguration(`${CONFIG_NAMESPACE}.cycleHours`)) {
+      this.getStates().forEach((state) =>
+        state.service.setCycleOverrides(this.getCycleOverrides())
+      );
+      this.updateUI();
+    } else if (
+      ['pacingTargets', 'pacingWorkingHours', 'pacingWorkingDays'].some((setting) =>
+        e.affectsConfiguration(`${CONFIG_NAMESPACE}.${setting}`)
+      )
+    ) {
+      this.getStates().forEach((state) => state.service.setPacing(this.getPacingOptions()));
+      this.updateUI();
+      this.updateViews();
+    } else if (e.affectsConfiguration(`${CONFIG_NAMESPACE}.spikeSensitivity`)) {
+      this.getStates().forEach((state) =>
+        state.service.setSpikeSensitivity(this.getSpikeSensitivity())
+      );
+      this.updateUI();
+      this.updateViews();
+    } else if (e.affectsConfiguration(`${CONFIG_NAMESPACE}.forecastModel`)) {
+      this.getStates().forEach((state) => state.service.setForecastModel(this.getForecastModel()));
+      this.updateUI();
+      this.updateViews();
+    } else if (
+      [
+        'lowQuotaNotificationThreshold',
+        'notificationThresholds',
+        'depletionWarningHours',
+        'notificationHysteresis',
+        'resetNotifications'
+      ].some((setting) => e.affectsConfiguration(`${CONFIG_NAMESPACE}.${setting}`))
+    ) {
+      this.notifications.configure(this.getAlertOptions());
+    } else if (
+      [
+        'statusBarItems',
+        'statusBarBuckets',
+        'statusBarAlignment',
+        'statusBarPriority',
+        'statusBarHideBelow'
+      ].some((setting) => e.affectsConfiguration(`${CONFIG_NAMESPACE}.${setting}`))
+    ) {
+      this.statusBar.configureLayout(this.getStatusBarLayout());
+      this.updateUI();
+    } else if (
+      e.affectsConfiguration(`${CONFIG_NAMESPACE}.refreshInterval`) ||
+      e.affectsConfiguration(`${CONFIG_NAMESPACE}.adaptiveRefresh`)
+    ) {
+      this.rescheduleAll();
+    } else if (e.affectsConfiguration(`${CONFIG_NAMESPACE}.simulationSpeed`)) {
+      this.simulation?.clock.setSpeed(this.getSimulationSpeed());
+      this.quotaTree.refresh();
     } else {
       this.updateUI();
+      // Thresholds and the display mode also shape the dashboard chart and tabs
+      this.updateViews();
     }
   }
 
-  private startAutoRefresh(): void {
-    if (this.refreshTimer) {
-      clearInterval(this.refreshTimer);
+  /**
+   * Schedules the account's next fetch. Each fetch schedules the following one, so the
+   * delay adapts to the latest usage, focus and idle state.
+   */
+  private scheduleRefresh(state: AccountState): void {
+    this.stopAutoRefresh(state);
+    // A removed account may still finish a fetch that was in flight
+    if (
+      this.paused ||
+      !this.coordinator.isLeader() ||
+      !state.service.hasApiKey() ||
+      this.accounts.get(state.profile.id) !== state
+    ) {
+      return;
     }
-    const interval = this.getConfig().refreshInterval * 1000;
-    this.refreshTimer = setInterval(() => this.refreshQuota(), Math.max(60000, interval));
+    const { warningThreshold, criticalThreshold, refreshInterval } = this.getConfig();
+    const now = Date.now();
+    const next = getNextRefresh({
+      now,
+      lastRefresh: state.lastRefresh,
+      baseIntervalMs: refreshInterval * 1000,
+      adaptive: vscode.workspace
+        .getConfiguration(CONFIG_NAMESPACE)
+        .get<boolean>('adaptiveRefresh', true),
+      data: state.currentData,
+      analytics: state.currentData ? state.service.getAnalytics(state.currentData) : {},
+      thresholds: [warningThreshold, criticalThreshold],
+      focused: this.focused,
+      idle: now - this.lastActivity >= IDLE_AFTER_MS,
+      retryNotBefore: state.retryNotBefore
+    });
+    state.refreshTimer = setTimeout(() => this.refreshAccount(state), next.at - now);
+  }
+
+  private rescheduleAll(): void {
+    this.accounts.forEach((state) => {
+      if (!state.isFetching) {
+        this.scheduleRefresh(state);
+      }
+    });
+  }
+
+  private stopAutoRefresh(state: AccountState): void {
+    if (state.refreshTimer) {
+      clearTimeout(state.refreshTimer);
+      state.refreshTimer = undefined;
+    }
+  }
+
+  private onActivity(): void {
+    const wasIdle = Date.now() - this.lastActivity >= IDLE_AFTER_MS;
+    this.lastActivity = Date.now();
+    // Coming back from idle may make a backed-off refresh due right away
+    if (wasIdle) {
+      this.rescheduleAll();
+    }
+  }
+
+  /**
+   * Pausing is shared by all windows, since only the leader polls.
+   */
+  public async pause(): Promise<void> {
+    await this.coordinator.setPaused(true);
+    this.applyPaused(true);
+  }
+
+  public async resume(): Promise<void> {
+    await this.coordinator.setPaused(false);
+    this.applyPaused(false);
+  }
+
+  private applyPaused(paused: boolean): void {
+    this.paused = paused;
+    vscode.commands.executeCommand('setContext', PAUSED_CONTEXT, paused);
+    this.statusBar.setPaused(paused);
+    if (paused) {
+      this.accounts.forEach((state) => this.stopAutoRefresh(state));
+    } else {
+      // Accounts whose refresh fell due while paused are fetched right away
+      this.rescheduleAll();
+    }
+    this.updateUI();
   }
 
   public async refreshQuota(): Promise<void> {
-    if (this.isFetching) {
+    if (this.simulation) {
+      return this.refreshAccount(this.simulation.state);
+    }
+    await Promise.all(
+      [...this.accounts.values()]
+        .filter((state) => state.service.hasApiKey())
+        .map((state) => this.refreshAccount(state))
+    );
+  }
+
+  private async refreshAccount(state: AccountState): Promise<void> {
+    if (state.isFetching) {
       return;
     }
 
-    this.isFetching = true;
-    this.statusBar.showLoading();
+    state.isFetching = true;
+    state.lastRefresh = Date.now();
+    this.stopAutoRefresh(state);
+    // Stale data stays visible with its marker while the refresh is retried, and simulated
+    // data refreshes too often for a spinner
+    if (this.isActive(state) && !state.stale && !this.isSimulated(state)) {
+      this.statusBar.showLoading();
+    }
 
     try {
-      const data = await this.service.refreshQuota();
-      if (!this.currentData) {
-        this.service.initializeSession(data, this.getConfig().trackSession);
+      const data = await state.service.refreshQuota();
+      const resets = state.resets.splice(0);
+      if (!state.sessionStarted) {
+        await this.startSession(state, data);
+      }
+      state.currentData = data;
+      state.fetchedAt = state.lastRefresh;
+      state.stale = false;
+      state.fetchError = null;
+      state.retryNotBefore = 0;
+      if (this.isSimulated(state)) {
+        // Simulated data stays out of the cache, other windows, notifications and projects
+        await this.recordSpikes(state, data);
+      } else {
+        await state.cache.set(data, state.lastRefresh);
+        this.coordinator.publish({
+          accountId: state.profile.id,
+          data,
+          timestamp: state.lastRefresh,
+          session: state.service.getSession()
+        });
+        if (this.coordinator.isLeader()) {
+          await this.notifyAccount(state, data, resets);
+          await this.recordSpikes(state, data);
+          await this.attributeUsage(state);
+        }
       }
-      this.currentData = data;
-      this.fetchError = null;
-      this.updateUI();
     } catch (error) {
-      this.fetchError = error instanceof Error ? error.message : String(error);
-      this.statusBar.showError(this.fetchError || 'Unknown Error');
+      state.fetchError = error instanceof Error ? error : new Error(String(error));
+      state.stale = !!state.currentData;
+      if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+        state.retryNotBefore = Date.now() + error.retryAfterMs;
+      }
     } finally {
-      this.isFetching = false;
+      state.isFetching = false;
+    }
+
+    this.scheduleRefresh(state);
+    if (this.isActive(state)) {
+      this.updateUI();
     }
+    this.updateViews();
   }
 
   private updateUI() {
-    if (!this.currentData) {
+    const state = this.getActiveState();
+    const showStale = !!state && state.service.hasApiKey() && this.canShowStale(state);
+    this.setStaleTicker(showStale);
+    if (!state) {
+      return;
+    }
+    if (!state.service.hasApiKey()) {
+      this.statusBar.showSetup();
+      return;
+    }
+    if (state.fetchError && !showStale) {
+      this.statusBar.showError(state.fetchError);
+      return;
+    }
+    if (!state.currentData) {
       return;
     }
+    this.statusBar.setStale(showStale ? { since: state.fetchedAt, error: state.fetchError } : null);
 
     const config = this.getConfig();
-    const analytics = this.service.getAnalytics(this.currentData);
-    const sessionUsage = this.service.getSessionUsage(this.currentData);
+    const analytics = state.service.getAnalytics(state.currentData);
+    const sessionUsage = state.service.getSessionUsage(state.currentData);
     const displayMode = vscode.workspace
       .getConfiguration(CONFIG_NAMESPACE)
       .get<StatusBarDisplayMode>('statusBarDisplay', 'subscription') as StatusBarDisplayMode;
+    const accountLabel =
+      this.accountManager.getAccounts().length > 1 ? state.profile.name : undefined;
+
+    this.statusBar.setProjects(state.projects.getSummaries());
+    this.statusBar.update(
+      state.currentData,
+      displayMode,
+      sessionUsage,
+      analytics,
+      config,
+      accountLabel
+    );
+  }
+
+  /**
+   * Whether the account's stale data is still recent enough to show instead of the error.
+   */
+  private canShowStale(state: AccountState): boolean {
+    const limitMs = this.getConfig().staleDataLimitMinutes * 60000;
+    return state.stale && !!state.currentData && Date.now() - state.fetchedAt <= limitMs;
+  }
+
+  /**
+   * Redraws stale data every minute so its countdowns stay current, and hands over to the
+   * error once the data passes the staleness limit.
+   */
+  private setStaleTicker(running: boolean): void {
+    if (running && !this.staleTimer) {
+      this.staleTimer = setInterval(() => {
+        this.updateUI();
+        this.quotaTree.refresh();
+      }, STALE_TICK_MS);
+    } else if (!running && this.staleTimer) {
+      clearInterval(this.staleTimer);
+      this.staleTimer = undefined;
+    }
+  }
+
+  public async exportHistory(): Promise<void> {
+    const profile = await this.pickAccount('Select the account whose history to export');
+    const state = profile && this.getAccountState(profile.id);
+    if (!state) {
+      return;
+    }
+    const snapshots = state.service.getHistory();
+    if (snapshots.length === 0) {
+      vscode.window.showInformationMessage(`No history has been recorded for ${profile.name} yet.`);
+      return;
+    }
+
+    let perProject = false;
+    if (state.projects.getRows().length > 0) {
+      const kind = await vscode.window.showQuickPick(
+        [
+          {
+            label: 'Usage snapshots',
+            description: 'Every recorded quota sample',
+            perProject: false
+          },
+          {
+            label: 'Usage per project',
+            description: 'Requests credited to each workspace folder per day',
+            perProject: true
+          }
+        ],
+        { placeHolder: 'Select what to export' }
+      );
+      if (!kind) {
+        return;
+      }
+      perProject = kind.perProject;
+    }
+
+    const range = await this.pickExportRange();
+    if (!range) {
+      return;
+    }
+
+    const recorded = perProject
+      ? [...new Set(state.projects.getRows().map((row) => row.bucket))]
+      : [...new Set(snapshots.flatMap((s) => Object.keys(s.buckets)))];
+    const picked = await vscode.window.showQuickPick(
+      recorded.map((bucket) => ({ label: bucket, picked: true })),
+      { canPickMany: true, placeHolder: 'Select the buckets to export' }
+    );
+    if (!picked || picked.length === 0) {
+      return;
+    }
+    const buckets = picked.map((item) => item.label);
+
+    const uri = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.file(
+        `cosmic-quota-${perProject ? 'projects-' : ''}${state.profile.id}.csv`
+      ),
+      filters: { CSV: ['csv'], JSON: ['json'] },
+      saveLabel: 'Export History'
+    });
+    if (!uri) {
+      return;
+    }
+
+    const format = detectHistoryFormat(uri.path, '');
+    let content: string;
+    let count: number;
+    if (perProject) {
+      const rows = state.projects.getRows(range).filter((row) => buckets.includes(row.bucket));
+      content = formatProjectUsage(rows, format, state.profile.name);
+      count = rows.length;
+    } else {
+      const rows = toHistoryRows(snapshots, { ...range, buckets });
+      content = formatHistory(rows, format, state.profile.name);
+      count = rows.length;
+    }
+    await vscode.workspace.fs.writeFile(uri, Buffer.from(content, 'utf8'));
 
-    this.statusBar.update(this.currentData, displayMode, sessionUsage, analytics, config);
+    const choice = await vscode.window.showInformationMessage(
+      `Exported ${count} ${perProject ? 'project usage' : 'history'} rows to ${uri.fsPath}.`,
+      'Open File'
+    );
+    if (choice === 'Open File') {
+      vscode.window.showTextDocument(uri);
+    }
   }
 
-  public showDetails() {
-    if (!this.currentData) {
+  private async pickExportRange(): Promise<HistoryExportFilter | undefined> {
+    const now = Date.now();
+    const day = 86400000;
+    const picked = await vscode.window.showQuickPick(
+      [
+        { label: 'All recorded history', filter: {} },
+        { label: 'Last 24 hours', filter: { from: now - day } },
+        { label: 'Last 7 days', filter: { from: now - 7 * day } },
+        { label: 'Last 30 days', filter: { from: now - 30 * day } },
+        { label: 'Custom range...', filter: undefined }
+      ],
+      { placeHolder: 'Select the date range to export' }
+    );
+    if (!picked) {
+      return undefined;
+    }
+    if (picked.filter) {
+      return picked.filter;
+    }
+
+    const input = await vscode.window.showInputBox({
+      prompt: 'Date range to export (inclusive, local time)',
+      placeHolder: 'YYYY-MM-DD to YYYY-MM-DD',
+      validateInput: (value) =>
+        this.parseDateRange(value) ? null : 'Enter two dates like 2024-05-01 to 2024-05-31'
+    });
+    return input ? this.parseDateRange(input) : undefined;
+  }
+
+  private parseDateRange(value: string): HistoryExportFilter | undefined {
+    const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})\s*(?:to|-|–)\s*(\d{4}-\d{2}-\d{2})$/);
+    if (!match) {
+      return undefined;
+    }
+    const from = new Date(`${match[1]}T00:00:00`).getTime();
+    const to = new Date(`${match[2]}T23:59:59.999`).getTime();
+    return Number.isNaN(from) || Number.isNaN(to) || from > to ? undefined : { from, to };
+  }
+
+  public async importHistory(): Promise<void> {
+    const profile = await this.pickAccount('Select the account to import history into');
+    const state = profile && this.getAccountState(profile.id);
+    if (!state) {
+      return;
+    }
+
+    const [uri] =
+      (await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { 'History Export': ['csv', 'json'] },
+        openLabel: 'Import History'
+      })) ?? [];
+    if (!uri) {
+      return;
+    }
+
+    try {
+      const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+      const snapshots = parseHistory(content, detectHistoryFormat(uri.path, content));
+      const added = await state.service.importHistory(snapshots);
+      vscode.window.showInformationMessage(
+        `Imported ${snapshots.length} snapshots into ${state.profile.name} (${added} new). ` +
+          'Snapshots older than the retention window are not kept.'
+      );
+      if (this.isActive(state)) {
+        this.updateUI();
+      }
+      this.updateViews();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      vscode.window.showErrorMessage(`Could not import history: ${message}`);
+    }
+  }
+
+  public showDetails(bucket?: QuotaBucketId) {
+    const active = this.getActiveState();
+    if (!active || !active.currentData) {
       this.refreshQuota();
       return;
     }
-    const analytics = this.service.getAnalytics(this.currentData);
+    QuotaWebview.createOrShow(this.context.extensionUri, this.dashboardHost, bucket);
+  }
+
+  public readonly dashboardHost: DashboardHost = {
+    getDashboardState: () => this.getDashboardState(),
+    refresh: () => this.refreshQuota(),
+    acknowledgeSpike: (accountId, bucket) => this.acknowledgeSpike(accountId, bucket)
+  };
 
-    QuotaWebview.createOrShow(this.context, this.currentData, analytics, () => this.refreshQuota());
+  private getDashboardState(): DashboardState | null {
+    // The dashboard falls back to the first bucket when the display mode is not a bucket id
+    const focusBucket = vscode.workspace
+      .getConfiguration(CONFIG_NAMESPACE)
+      .get<string>('statusBarDisplay', 'subscription');
+
+    const states = this.getViewStates().sort(
+      (a, b) => Number(this.isActive(b)) - Number(this.isActive(a))
+    );
+    if (states.length === 0) {
+      return null;
+    }
+
+    const now = this.simulation?.clock.now() ?? Date.now();
+    const { warningThreshold, criticalThreshold } = this.getConfig();
+    return {
+      accounts: states.map((state) => ({
+        id: state.profile.id,
+        name: state.profile.name,
+        data: state.currentData,
+        analytics: state.currentData ? state.service.getAnalytics(state.currentData) : null,
+        error: state.fetchError?.message ?? null,
+        staleSince: state.stale ? state.fetchedAt : null,
+        history: buildChartHistory(
+          state.service.getHistory(now - CHART_HISTORY_MS),
+          state.currentData?.buckets ?? [],
+          state.spikes.getEvents(now - CHART_HISTORY_MS)
+        ),
+        sessionStart: state.service.getSessionStartTime(),
+        session: state.service.getSessionSummary(),
+        sessions: state.sessions.getSessions(),
+        projects: state.projects.getSummaries(now)
+      })),
+      focusBucket,
+      thresholds: { warning: warningThreshold, critical: criticalThreshold },
+      updatedAt: now,
+      simulation: this.simulation?.label ?? null
+    };
+  }
+
+  /**
+   * The accounts the quota view and dashboard show, in profile order: only the simulated one
+   * while a simulation runs.
+   */
+  private getViewStates(): AccountState[] {
+    if (this.simulation) {
+      return [this.simulation.state];
+    }
+    return this.accountManager
+      .getAccounts()
+      .map((profile) => this.accounts.get(profile.id))
+      .filter((state): state is AccountState => !!state && state.service.hasApiKey());
+  }
+
+  private readonly treeHost: QuotaTreeHost = {
+    getQuotaTree: () => this.getQuotaTree()
+  };
+
+  private getQuotaTree(): QuotaTreeNode[] {
+    const { warningThreshold, criticalThreshold } = this.getConfig();
+    const simulation = this.simulation;
+    return buildQuotaTree(
+      this.getViewStates().map((state) => {
+        const sessionStart = state.service.getSessionStartTime();
+        return {
+          id: state.profile.id,
+          name: state.profile.name,
+          data: state.currentData,
+          analytics: state.currentData ? state.service.getAnalytics(state.currentData) : null,
+          error: state.fetchError?.message ?? null,
+          staleSince: state.stale ? state.fetchedAt : null,
+          resets: state.service.getResets(),
+          session:
+            sessionStart !== null && state.currentData
+              ? {
+                  name: state.service.getSession()?.name ?? null,
+                  start: sessionStart,
+                  usage: state.service.getSessionTotals(state.currentData)
+                }
+              : null,
+          sessions: state.sessions.getSessions()
+        };
+      }),
+      {
+        warningThreshold,
+        criticalThreshold,
+        now: simulation?.clock.now() ?? Date.now(),
+        simulation: simulation
+          ? { label: simulation.label, speed: simulation.clock.getSpeed() }
+          : undefined
+      }
+    );
+  }
+
+  /**
+   * Pushes the latest state to the dashboard and the quota view.
+   */
+  private updateViews() {
+    QuotaWebview.update(() => this.getDashboardState());
+    this.quotaTree.refresh();
+  }
+
+  public async startSimulation(): Promise<void> {
+    const picked = await vscode.window.showQuickPick(
+      [
+        {
+          label: 'Steady Burn',
+          description: 'Healthy to critical within a subscription cycle',
+          scenario: 'steady' as SimulationScenario
+        },
+        {
+          label: 'Usage Spike',
+          description: 'A quiet hour, then twenty minutes of runaway usage',
+          scenario: 'spike' as SimulationScenario
+        },
+        {
+          label: 'Quota Reset',
+          description: 'Every quota close to its limit and minutes from renewing',
+          scenario: 'reset' as SimulationScenario
+        },
+        {
+          label: 'Recorded Trace...',
+          description: 'Replay a history export (CSV or JSON)',
+          scenario: undefined
+        }
+      ],
+      { placeHolder: 'Select what to simulate' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const start = Date.now();
+    let script: QuotaScript;
+    let label = picked.label;
+    if (picked.scenario) {
+      script = createScenario(picked.scenario, start);
+    } else {
+      const [uri] =
+        (await vscode.window.showOpenDialog({
+          canSelectMany: false,
+          filters: { 'History Export': ['csv', 'json'] },
+          openLabel: 'Replay Trace'
+        })) ?? [];
+      if (!uri) {
+        return;
+      }
+      try {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+        script = createTracePlayback(
+          parseHistory(content, detectHistoryFormat(uri.path, content)),
+          start
+        );
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Could not replay the trace: ${message}`);
+        return;
+      }
+      label = `Replay of ${uri.path.split('/').pop()}`;
+    }
+
+    this.stopSimulation();
+    const clock = new PlaybackClock(start, this.getSimulationSpeed());
+    // Simulated history, spikes and usage live in memory and are gone once the simulation stops
+    const state = this.createAccountState(SIMULATION_ACCOUNT, new MemoryStorage(), () =>
+      clock.now()
+    );
+    state.service.setProvider(new SimulatedQuotaProvider(script, clock));
+    this.simulation = {
+      state,
+      clock,
+      label,
+      timer: setInterval(() => this.refreshAccount(state), SIMULATION_REFRESH_MS)
+    };
+    vscode.commands.executeCommand('setContext', SIMULATING_CONTEXT, true);
+    this.statusBar.setSimulation({ label, now: () => clock.now() });
+    await this.refreshAccount(state);
+  }
+
+  public stopSimulation() {
+    if (!this.simulation) {
+      return;
+    }
+    clearInterval(this.simulation.timer);
+    this.simulation = undefined;
+    vscode.commands.executeCommand('setContext', SIMULATING_CONTEXT, false);
+    this.statusBar.setSimulation(null);
+    this.updateUI();
+    this.updateViews();
   }
 
   public dispose() {
-    if (this.refreshTimer) {
-      clearInterval(this.refreshTimer);
+    if (this.simulation) {
+      clearInterval(this.simulation.timer);
     }
+    this.accounts.forEach((state) => this.stopAutoRefresh(state));
+    this.setStaleTicker(false);
+    this.coordinator.dispose();
     this.statusBar.dispose();
+    this.quotaTree.dispose();
   }
 }
 
@@ -143,8 +1530,49 @@ export function activate(context: vscode.ExtensionContext) {
   const monitor = new QuotaMonitor(context);
 
   context.subscriptions.push(
+    { dispose: () => monitor.dispose() },
     vscode.commands.registerCommand('syntheticQuota.refresh', () => monitor.refreshQuota()),
-    vscode.commands.registerCommand('syntheticQuota.showDetails', () => monitor.showDetails())
+    vscode.commands.registerCommand('syntheticQuota.showDetails', (bucket?: unknown) =>
+      monitor.showDetails(typeof bucket === 'string' ? bucket : undefined)
+    ),
+    vscode.commands.registerCommand('syntheticQuota.pause', () => monitor.pause()),
+    vscode.commands.registerCommand('syntheticQuota.resume', () => monitor.resume()),
+    vscode.commands.registerCommand('syntheticQuota.startSession', () => monitor.beginSession()),
+    vscode.commands.registerCommand('syntheticQuota.stopSession', () => monitor.endSession()),
+    vscode.commands.registerCommand('syntheticQuota.resetSession', () =>
+      monitor.resetSessionBaseline()
+    ),
+    vscode.commands.registerCommand('syntheticQuota.startSimulation', () =>
+      monitor.startSimulation()
+    ),
+    vscode.commands.registerCommand('syntheticQuota.stopSimulation', () =>
+      monitor.stopSimulation()
+    ),
+    vscode.commands.registerCommand('syntheticQuota.setApiKey', () => monitor.setApiKey()),
+    vscode.commands.registerCommand('syntheticQuota.clearApiKey', () => monitor.clearApiKey()),
+    vscode.commands.registerCommand('syntheticQuota.addAccount', () => monitor.addAccount()),
+    vscode.commands.registerCommand('syntheticQuota.removeAccount', () => monitor.removeAccount()),
+    vscode.commands.registerCommand('syntheticQuota.switchAccount', () => monitor.switchAccount()),
+    vscode.commands.registerCommand('syntheticQuota.exportHistory', () => monitor.exportHistory()),
+    vscode.commands.registerCommand('syntheticQuota.importHistory', () => monitor.importHistory()),
+    vscode.commands.registerCommand(
+      'syntheticQuota.acknowledgeSpike',
+      (accountId?: unknown, bucket?: unknown) => {
+        if (typeof accountId === 'string' && typeof bucket === 'string') {
+          return monitor.acknowledgeSpike(accountId, bucket);
+        }
+      }
+    ),
+    vscode.window.registerTreeDataProvider(QuotaTreeProvider.viewId, monitor.quotaTree),
+    vscode.commands.registerCommand('syntheticQuota.copyValue', (node?: QuotaTreeNode) => {
+      if (node?.copyValue) {
+        return vscode.env.clipboard.writeText(node.copyValue);
+      }
+    }),
+    vscode.window.registerWebviewPanelSerializer(QuotaWebview.viewType, {
+      deserializeWebviewPanel: async (panel) =>
+        QuotaWebview.revive(panel, context.extensionUri, monitor.dashboardHost)
+    })
   );
 }
 
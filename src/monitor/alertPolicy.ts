@@ -0,0 +1,190 @@
+import { QuotaData, QuotaBucket, QuotaBucketId, BucketAnalytics, UsageSpike } from '../api/types';
+import { getUsedPercent } from '../api/buckets';
+import { isRenewal } from './sessionTracker';
+
+// A spike that flickers on and off between refreshes only alerts once in this period
+const SPIKE_COOLDOWN_MS = 30 * 60000;
+
+export type ResetNotificationMode = 'off' | 'afterAlert' | 'always';
+
+export interface AlertOptions {
+  // Remaining percentages that trigger an alert for buckets without their own list
+  thresholds: number[];
+  bucketThresholds: Record<QuotaBucketId, number[]>;
+  // Alert when depletion is predicted within this many hours; 0 disables
+  depletionHours: number;
+  // Percentage points remaining must recover past a threshold before it can fire again
+  hysteresis: number;
+  resetNotifications: ResetNotificationMode;
+}
+
+export type QuotaAlert =
+  | { kind: 'threshold'; bucket: QuotaBucket; threshold: number; remainingPercent: number }
+  | { kind: 'depletion'; bucket: QuotaBucket; hoursUntilDepletion: number }
+  | { kind: 'spike'; bucket: QuotaBucket; spike: UsageSpike }
+  | { kind: 'reset'; bucket: QuotaBucket };
+
+/**
+ * What has been alerted for one bucket in its current cycle. Plain JSON so it can be
+ * persisted and alerts are not repeated after a window reload.
+ */
+export interface BucketAlertState {
+  renewsAt: string;
+  fired: number[];
+  depletionFired: boolean;
+  // When the last spike alert fired; missing in state saved by older versions
+  spikeFiredAt?: number;
+  snoozed: boolean;
+  muted: string[];
+  alerted: boolean;
+}
+
+export type AlertState = Record<QuotaBucketId, BucketAlertState>;
+
+export function getAlertKey(alert: QuotaAlert): string {
+  return alert.kind === 'threshold' ? `threshold:${alert.threshold}` : alert.kind;
+}
+
+/**
+ * Decides which notifications a refresh should raise. Each threshold fires once when
+ * remaining quota drops to it and re-arms only after recovering past it by the hysteresis
+ * margin; everything is forgotten when the bucket's cycle renews.
+ */
+export class AlertPolicy {
+  constructor(
+    private options: AlertOptions,
+    private state: AlertState = {}
+  ) {}
+
+  public configure(options: AlertOptions) {
+    this.options = options;
+  }
+
+  public getState(): AlertState {
+    return this.state;
+  }
+
+  public evaluate(data: QuotaData, analytics: BucketAnalytics, now = Date.now()): QuotaAlert[] {
+    const alerts: QuotaAlert[] = [];
+
+    for (const bucket of data.buckets) {
+      let state: BucketAlertState | undefined = this.state[bucket.id];
+      // A renewal without a reported reset, e.g. state from before a long break, starts the
+      // new cycle quietly
+      if (!state || isRenewal(state, bucket)) {
+        state = {
+          renewsAt: bucket.renewsAt,
+          fired: [],
+          depletionFired: false,
+          snoozed: false,
+          muted: [],
+          alerted: false
+        };
+        this.state[bucket.id] = state;
+      }
+
+      const remaining = 100 - getUsedPercent(bucket);
+      const candidates: QuotaAlert[] = [];
+
+      const thresholds = (this.options.bucketThresholds[bucket.id] ?? this.options.thresholds)
+        .filter((t) => t > 0)
+        .sort((a, b) => a - b);
+      const crossed: number[] = [];
+      for (const threshold of thresholds) {
+        if (remaining <= threshold) {
+          if (!state.fired.includes(threshold)) {
+            crossed.push(threshold);
+            state.fired.push(threshold);
+          }
+        } else if (remaining > threshold + this.options.hysteresis) {
+          state.fired = state.fired.filter((t) => t !== threshold);
+        }
+      }
+      // A jump past several thresholds at once only reports the lowest one
+      if (crossed.length > 0) {
+        candidates.push({
+          kind: 'threshold',
+          bucket,
+          threshold: crossed[0],
+          remainingPercent: remaining
+        });
+      }
+
+      const hours = analytics[bucket.id]?.hoursUntilDepletion ?? null;
+      const warnHours = this.options.depletionHours;
+      if (warnHours > 0) {
+        if (hours !== null && hours <= warnHours && remaining > 0) {
+          if (!state.depletionFired) {
+            state.depletionFired = true;
+            candidates.push({ kind: 'depletion', bucket, hoursUntilDepletion: hours });
+          }
+        } else if (hours === null || hours > warnHours * 1.5) {
+          state.depletionFired = false;
+        }
+      }
+
+      const spike = analytics[bucket.id]?.spike ?? null;
+      if (spike && now - (state.spikeFiredAt ?? 0) > SPIKE_COOLDOWN_MS) {
+        state.spikeFiredAt = now;
+        candidates.push({ kind: 'spike', bucket, spike });
+      }
+
+      for (const alert of candidates) {
+        if (!state.snoozed && !state.muted.includes(getAlertKey(alert))) {
+          state.alerted = true;
+          alerts.push(alert);
+        }
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Forgets the bucket's alerts after a reset was detected, so the new cycle starts fresh.
+   * Returns the reset alert when the mode asks for one.
+   */
+  public reset(bucket: QuotaBucket): QuotaAlert | null {
+    const state = this.state[bucket.id];
+    if (!state || !isRenewal(state, bucket)) {
+      return null;
+    }
+    delete this.state[bucket.id];
+    const mode = this.options.resetNotifications;
+    return mode === 'always' || (mode === 'afterAlert' && (state.alerted || state.snoozed))
+      ? { kind: 'reset', bucket }
+      : null;
+  }
+
+  /**
+   * Silences every alert for the bucket until its quota renews.
+   */
+  public snooze(bucket: QuotaBucketId) {
+    const state = this.state[bucket];
+    if (state) {
+      state.snoozed = true;
+    }
+  }
+
+  /**
+   * Silences one kind of alert (a specific threshold, depletion or spikes) for the current
+   * cycle.
+   */
+  public mute(alert: QuotaAlert) {
+    const state = this.state[alert.bucket.id];
+    if (state && !state.muted.includes(getAlertKey(alert))) {
+      state.muted.push(getAlertKey(alert));
+    }
+  }
+
+  /**
+   * Silences spike alerts for the bucket until its quota renews, after a spike was
+   * acknowledged as expected.
+   */
+  public muteSpikes(bucket: QuotaBucketId) {
+    const state = this.state[bucket];
+    if (state && !state.muted.includes('spike')) {
+      state.muted.push('spike');
+    }
+  }
+}
@@ -0,0 +1,246 @@
+import { ForecastModelId } from '../api/types';
+
+const MS_PER_HOUR = 3600000;
+
+// Half-life of the EWMA rate, in hours
+const EWMA_HALF_LIFE_HOURS = 0.5;
+// Holt's smoothing factors for the level and the trend of the burn rate
+const HOLT_ALPHA = 0.5;
+const HOLT_BETA = 0.3;
+// Damps the trend so it levels off instead of extrapolating without bound
+const HOLT_PHI = 0.9;
+// Backtest predictions needed before the most accurate model replaces the default
+const MIN_BACKTEST_POINTS = 6;
+
+export const DEFAULT_FORECAST_MODEL: ForecastModelId = 'hybrid';
+
+/**
+ * Usage of one bucket at one point in time, in percent of its limit.
+ */
+export interface UsagePoint {
+  timestamp: number;
+  used: number;
+}
+
+export interface ForecastInput {
+  // Samples of the current cycle up to `now`, oldest first
+  samples: UsagePoint[];
+  now: number;
+  usedPercent: number;
+  hoursElapsedInCycle: number;
+  hoursUntilReset: number;
+}
+
+/**
+ * Burn rate in percent per hour expected for the rest of the cycle. `low` and `high` are
+ * one standard deviation of the observed per-interval rates around it, narrowed by how
+ * many intervals fit into the rest of the cycle.
+ */
+export interface RateForecast {
+  ratePerHour: number;
+  low: number;
+  high: number;
+}
+
+export interface Forecaster {
+  id: ForecastModelId;
+  label: string;
+  forecast(input: ForecastInput): RateForecast;
+}
+
+interface IntervalRate {
+  rate: number;
+  hours: number;
+}
+
+function getIntervalRates(samples: UsagePoint[]): IntervalRate[] {
+  const rates: IntervalRate[] = [];
+  for (let i = 1; i < samples.length; i++) {
+    const hours = (samples[i].timestamp - samples[i - 1].timestamp) / MS_PER_HOUR;
+    if (hours > 0) {
+      rates.push({ rate: (samples[i].used - samples[i - 1].used) / hours, hours });
+    }
+  }
+  return rates;
+}
+
+/**
+ * Average rate since the cycle started, the fallback for every model without samples.
+ */
+function getCycleRate(input: ForecastInput): number {
+  return input.hoursElapsedInCycle > 0.1 ? input.usedPercent / input.hoursElapsedInCycle : 0;
+}
+
+function withBounds(ratePerHour: number, input: ForecastInput): RateForecast {
+  const rate = Math.max(0, ratePerHour);
+  const intervals = getIntervalRates(input.samples);
+  const totalHours = intervals.reduce((sum, interval) => sum + interval.hours, 0);
+  if (intervals.length < 2 || totalHours <= 0) {
+    return { ratePerHour: rate, low: rate, high: rate };
+  }
+
+  const variance =
+    intervals.reduce((sum, interval) => sum + interval.hours * (interval.rate - rate) ** 2, 0) /
+    totalHours;
+  // Bursts average out over the rest of the cycle, so the band narrows for longer horizons
+  const meanInterval = totalHours / intervals.length;
+  const horizon = Math.max(meanInterval, input.hoursUntilReset);
+  const spread = Math.sqrt(variance) * Math.sqrt(meanInterval / horizon);
+  return { ratePerHour: rate, low: Math.max(0, rate - spread), high: rate + spread };
+}
+
+/**
+ * The original blend: 70% of the average rate since the cycle started for stability, 30%
+ * of the rate over the sampled part of the cycle for responsiveness.
+ */
+const hybrid: Forecaster = {
+  id: 'hybrid',
+  label: 'Hybrid',
+  forecast(input) {
+    const cycleRate = getCycleRate(input);
+    const first = input.samples[0];
+    const last = input.samples[input.samples.length - 1];
+    const hours = first && last ? (last.timestamp - first.timestamp) / MS_PER_HOUR : 0;
+    // Minimum 3 minutes to be considered reliable
+    if (input.samples.length < 2 || hours <= 0.05) {
+      return withBounds(cycleRate, input);
+    }
+    const sessionRate = Math.max(0, (last.used - first.used) / hours);
+    return withBounds(cycleRate * 0.7 + sessionRate * 0.3, input);
+  }
+};
+
+/**
+ * Least-squares slope of usage over time across the cycle's samples.
+ */
+const linear: Forecaster = {
+  id: 'linear',
+  label: 'Linear',
+  forecast(input) {
+    const points = input.samples.map((sample) => ({
+      x: (sample.timestamp - input.now) / MS_PER_HOUR,
+      y: sample.used
+    }));
+    const n = points.length;
+    const meanX = points.reduce((sum, p) => sum + p.x, 0) / Math.max(1, n);
+    const meanY = points.reduce((sum, p) => sum + p.y, 0) / Math.max(1, n);
+    const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+    if (n < 2 || sxx <= 0) {
+      return withBounds(getCycleRate(input), input);
+    }
+    const sxy = points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0);
+    return withBounds(sxy / sxx, input);
+  }
+};
+
+/**
+ * Exponentially weighted average of the per-interval rates, weighted by time so irregular
+ * polling does not skew it.
+ */
+const ewma: Forecaster = {
+  id: 'ewma',
+  label: 'EWMA',
+  forecast(input) {
+    const intervals = getIntervalRates(input.samples);
+    if (intervals.length === 0) {
+      return withBounds(getCycleRate(input), input);
+    }
+    let rate = intervals[0].rate;
+    for (const interval of intervals.slice(1)) {
+      const alpha = 1 - Math.pow(0.5, interval.hours / EWMA_HALF_LIFE_HOURS);
+      rate += alpha * (interval.rate - rate);
+    }
+    return withBounds(rate, input);
+  }
+};
+
+/**
+ * Holt's linear trend method on the per-interval rates with a damped trend, averaged over
+ * the intervals left until the reset.
+ */
+const holt: Forecaster = {
+  id: 'holt',
+  label: "Holt's trend",
+  forecast(input) {
+    const intervals = getIntervalRates(input.samples);
+    if (intervals.length < 2) {
+      return withBounds(getCycleRate(input), input);
+    }
+    let level = intervals[0].rate;
+    let trend = intervals[1].rate - intervals[0].rate;
+    for (const interval of intervals.slice(1)) {
+      const previousLevel = level;
+      level = HOLT_ALPHA * interval.rate + (1 - HOLT_ALPHA) * (level + HOLT_PHI * trend);
+      trend = HOLT_BETA * (level - previousLevel) + (1 - HOLT_BETA) * HOLT_PHI * trend;
+    }
+
+    const meanInterval =
+      intervals.reduce((sum, interval) => sum + interval.hours, 0) / intervals.length;
+    const steps = Math.max(1, Math.round(input.hoursUntilReset / meanInterval));
+    let total = 0;
+    let damping = 0;
+    for (let k = 1, phi = HOLT_PHI; k <= steps; k++, phi *= HOLT_PHI) {
+      damping += phi;
+      total += level + damping * trend;
+    }
+    return withBounds(total / steps, input);
+  }
+};
+
+export const FORECASTERS: Record<ForecastModelId, Forecaster> = { hybrid, linear, ewma, holt };
+
+/**
+ * One cycle of a bucket's recorded usage, as the backtest replays it.
+ */
+export interface UsageCycle {
+  samples: UsagePoint[];
+  renewsAt: number;
+  cycleHours: number;
+}
+
+export interface BacktestResult {
+  model: ForecastModelId;
+  // Mean absolute error of the predicted usage at the end of each cycle, in percentage points
+  error: number;
+  points: number;
+}
+
+/**
+ * Replays recorded cycles: at every sample, predicts the usage at the cycle's last sample
+ * from what was known then and compares it with what was actually recorded.
+ */
+export function backtest(forecaster: Forecaster, cycles: UsageCycle[]): BacktestResult {
+  let totalError = 0;
+  let points = 0;
+  for (const cycle of cycles) {
+    const target = cycle.samples[cycle.samples.length - 1];
+    for (let i = 1; i < cycle.samples.length - 1; i++) {
+      const current = cycle.samples[i];
+      const hoursUntilReset = (cycle.renewsAt - current.timestamp) / MS_PER_HOUR;
+      const { ratePerHour } = forecaster.forecast({
+        samples: cycle.samples.slice(0, i + 1),
+        now: current.timestamp,
+        usedPercent: current.used,
+        hoursElapsedInCycle: Math.max(0, cycle.cycleHours - hoursUntilReset),
+        hoursUntilReset
+      });
+      const horizon = (target.timestamp - current.timestamp) / MS_PER_HOUR;
+      const predicted = Math.min(100, current.used + ratePerHour * horizon);
+      totalError += Math.abs(predicted - target.used);
+      points++;
+    }
+  }
+  return { model: forecaster.id, error: points > 0 ? totalError / points : 0, points };
+}
+
+/**
+ * The model with the lowest backtest error, or the default while there is too little
+ * history to tell the models apart.
+ */
+export function selectForecaster(cycles: UsageCycle[]): BacktestResult | null {
+  const results = Object.values(FORECASTERS).map((forecaster) => backtest(forecaster, cycles));
+  if (results[0].points < MIN_BACKTEST_POINTS) {
+    return null;
+  }
+  return results.reduce((best, result) => (result.error < best.error ? result : best));
+}
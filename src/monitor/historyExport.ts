@@ -0,0 +1,270 @@
+import { QuotaBucketId, QuotaSnapshot } from '../api/types';
+import { getUsedPercent } from '../api/buckets';
+import { ProjectUsageRow } from './projectUsageStore';
+
+export const HISTORY_SCHEMA = 'cosmic-quota.history';
+export const HISTORY_SCHEMA_VERSION = 1;
+export const PROJECT_USAGE_SCHEMA = 'cosmic-quota.projects';
+export const PROJECT_USAGE_SCHEMA_VERSION = 1;
+
+export type HistoryExportFormat = 'csv' | 'json';
+
+/**
+ * One bucket of one snapshot. The column set is part of the versioned schema: new columns
+ * may be appended, but existing ones keep their names and meaning.
+ */
+export interface HistoryRow {
+  timestamp: string;
+  bucket: QuotaBucketId;
+  requests: number;
+  limit: number;
+  percent: number;
+  renewsAt: string;
+}
+
+export interface HistoryExportFile {
+  schema: typeof HISTORY_SCHEMA;
+  version: number;
+  exportedAt: string;
+  account?: string;
+  rows: HistoryRow[];
+}
+
+export interface HistoryExportFilter {
+  from?: number;
+  to?: number;
+  buckets?: QuotaBucketId[];
+}
+
+const CSV_COLUMNS: Array<keyof HistoryRow> = [
+  'timestamp',
+  'bucket',
+  'requests',
+  'limit',
+  'percent',
+  'renewsAt'
+];
+
+export class HistoryFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'HistoryFormatError';
+  }
+}
+
+export function toHistoryRows(
+  snapshots: QuotaSnapshot[],
+  filter: HistoryExportFilter = {}
+): HistoryRow[] {
+  const rows: HistoryRow[] = [];
+  for (const snapshot of snapshots) {
+    if (
+      (filter.from !== undefined && snapshot.timestamp < filter.from) ||
+      (filter.to !== undefined && snapshot.timestamp > filter.to)
+    ) {
+      continue;
+    }
+    for (const [bucket, sample] of Object.entries(snapshot.buckets)) {
+      if (filter.buckets && !filter.buckets.includes(bucket)) {
+        continue;
+      }
+      rows.push({
+        timestamp: new Date(snapshot.timestamp).toISOString(),
+        bucket,
+        requests: sample.requests,
+        limit: sample.limit,
+        percent: Math.round(getUsedPercent(sample) * 100) / 100,
+        renewsAt: sample.renewsAt
+      });
+    }
+  }
+  return rows;
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatHistory(
+  rows: HistoryRow[],
+  format: HistoryExportFormat,
+  account?: string
+): string {
+  if (format === 'json') {
+    const file: HistoryExportFile = {
+      schema: HISTORY_SCHEMA,
+      version: HISTORY_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      account,
+      rows
+    };
+    return JSON.stringify(file, null, 2);
+  }
+
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const row of rows) {
+    lines.push(CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+const PROJECT_CSV_COLUMNS: Array<keyof ProjectUsageRow> = [
+  'date',
+  'project',
+  'name',
+  'bucket',
+  'requests'
+];
+
+/**
+ * Per-project daily totals. A separate schema from snapshots, so it is export-only and
+ * an import rejects it with a clear message.
+ */
+export function formatProjectUsage(
+  rows: ProjectUsageRow[],
+  format: HistoryExportFormat,
+  account?: string
+): string {
+  const rounded = rows.map((row) => ({ ...row, requests: Math.round(row.requests * 100) / 100 }));
+  if (format === 'json') {
+    return JSON.stringify(
+      {
+        schema: PROJECT_USAGE_SCHEMA,
+        version: PROJECT_USAGE_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        account,
+        rows: rounded
+      },
+      null,
+      2
+    );
+  }
+
+  const lines = [PROJECT_CSV_COLUMNS.join(',')];
+  for (const row of rounded) {
+    lines.push(PROJECT_CSV_COLUMNS.map((column) => escapeCsv(row[column])).join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function parseCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const c = line[i];
+    if (quoted) {
+      if (c === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += c;
+    }
+  }
+  fields.push(field);
+  return fields;
+}
+
+function parseCsv(content: string): unknown[] {
+  const lines = content.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length === 0) {
+    return [];
+  }
+  // Columns are matched by name, so reordered or extra columns from spreadsheets still import
+  const header = parseCsvLine(lines[0]).map((h) => h.trim());
+  const missing = CSV_COLUMNS.filter((column) => column !== 'percent' && !header.includes(column));
+  if (missing.length > 0) {
+    throw new HistoryFormatError(`Missing CSV columns: ${missing.join(', ')}`);
+  }
+  return lines.slice(1).map((line) => {
+    const values = parseCsvLine(line);
+    const record: Record<string, string> = {};
+    header.forEach((column, i) => (record[column] = values[i] ?? ''));
+    return record;
+  });
+}
+
+function parseJson(content: string): unknown[] {
+  let file: Partial<HistoryExportFile>;
+  try {
+    file = JSON.parse(content);
+  } catch {
+    throw new HistoryFormatError('The file is not valid JSON');
+  }
+  if ((file?.schema as string) === PROJECT_USAGE_SCHEMA) {
+    throw new HistoryFormatError(
+      'The file is a per-project usage export, which cannot be imported as history'
+    );
+  }
+  if (file?.schema !== HISTORY_SCHEMA || typeof file.version !== 'number') {
+    throw new HistoryFormatError('The file is not a Cosmic Quota history export');
+  }
+  if (file.version > HISTORY_SCHEMA_VERSION) {
+    throw new HistoryFormatError(
+      `The file uses history schema v${file.version}; this version of the extension reads up to v${HISTORY_SCHEMA_VERSION}`
+    );
+  }
+  return Array.isArray(file.rows) ? file.rows : [];
+}
+
+function toNumber(value: unknown): number {
+  // Number('') is 0, but an empty cell is a missing value
+  return value === '' || value === null || value === undefined ? NaN : Number(value);
+}
+
+/**
+ * Reads an export back into snapshots, grouping rows that share a timestamp.
+ * Throws `HistoryFormatError` naming the first row that cannot be read.
+ */
+export function parseHistory(content: string, format: HistoryExportFormat): QuotaSnapshot[] {
+  const records = format === 'json' ? parseJson(content) : parseCsv(content);
+  const snapshots = new Map<number, QuotaSnapshot>();
+
+  records.forEach((record, index) => {
+    const row = record as Record<string, unknown>;
+    const timestamp = Date.parse(String(row.timestamp));
+    const requests = toNumber(row.requests);
+    const limit = toNumber(row.limit);
+    const bucket = String(row.bucket ?? '').trim();
+    const renewsAt = String(row.renewsAt ?? '');
+    if (
+      !bucket ||
+      Number.isNaN(timestamp) ||
+      !Number.isFinite(requests) ||
+      !Number.isFinite(limit) ||
+      Number.isNaN(Date.parse(renewsAt))
+    ) {
+      throw new HistoryFormatError(`Row ${index + 1} is not a valid history entry`);
+    }
+
+    let snapshot = snapshots.get(timestamp);
+    if (!snapshot) {
+      snapshot = { timestamp, buckets: {} };
+      snapshots.set(timestamp, snapshot);
+    }
+    snapshot.buckets[bucket] = { limit, requests, renewsAt };
+  });
+
+  return [...snapshots.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
+
+export function detectHistoryFormat(fileName: string, content: string): HistoryExportFormat {
+  if (/\.json$/i.test(fileName)) {
+    return 'json';
+  }
+  if (/\.csv$/i.test(fileName)) {
+    return 'csv';
+  }
+  return content.trimStart().startsWith('{') ? 'json' : 'csv';
+}
@@ -0,0 +1,138 @@
+import type { Memento } from 'vscode';
+import { QuotaData, QuotaSnapshot, HistoryRetentionOptions } from '../api/types';
+import { getBucketSamples } from '../api/buckets';
+import { DEFAULT_ACCOUNT_ID, storageKeyFor } from '../services/accountManager';
+
+const STORAGE_KEY = 'syntheticQuota.history';
+const MS_PER_MINUTE = 60000;
+const MS_PER_HOUR = 3600000;
+const MS_PER_DAY = 86400000;
+
+export function historyStorageKey(accountId: string): string {
+  return storageKeyFor(STORAGE_KEY, accountId);
+}
+
+export function createSnapshot(data: QuotaData, timestamp: number): QuotaSnapshot {
+  return { timestamp, buckets: getBucketSamples(data) };
+}
+
+/**
+ * Persistent time series of quota snapshots, kept in the extension's global state so
+ * history survives window reloads. Older samples are thinned out to one per
+ * `downsampleMinutes` slot and dropped entirely once they exceed the retention window.
+ */
+export class HistoryStore {
+  private snapshots: QuotaSnapshot[];
+
+  private storageKey: string;
+
+  constructor(
+    private storage: Memento,
+    private options: HistoryRetentionOptions,
+    accountId = DEFAULT_ACCOUNT_ID
+  ) {
+    this.storageKey = historyStorageKey(accountId);
+    this.snapshots = [];
+    this.reload();
+  }
+
+  public configure(options: HistoryRetentionOptions) {
+    this.options = options;
+  }
+
+  public getSnapshots(since = 0): QuotaSnapshot[] {
+    return this.snapshots.filter((s) => s.timestamp >= since);
+  }
+
+  /**
+   * Adds a snapshot. With `persist` off it is only kept in memory, for snapshots another
+   * window has already stored.
+   */
+  public async record(snapshot: QuotaSnapshot, persist = true): Promise<void> {
+    if (persist) {
+      this.reload();
+    }
+    const last = this.snapshots[this.snapshots.length - 1];
+    if (last && snapshot.timestamp < last.timestamp) {
+      this.snapshots.push(snapshot);
+      this.snapshots.sort((a, b) => a.timestamp - b.timestamp);
+    } else {
+      this.snapshots.push(snapshot);
+    }
+
+    this.prune(snapshot.timestamp);
+    if (persist) {
+      await this.storage.update(this.storageKey, this.snapshots);
+    }
+  }
+
+  /**
+   * Adds snapshots from another machine or an export. Samples already recorded for the same
+   * timestamp and bucket are kept. Returns how many snapshots were new.
+   */
+  public async merge(snapshots: QuotaSnapshot[]): Promise<number> {
+    this.reload();
+    const byTimestamp = new Map(this.snapshots.map((s) => [s.timestamp, s]));
+    let added = 0;
+    for (const snapshot of snapshots) {
+      const existing = byTimestamp.get(snapshot.timestamp);
+      if (existing) {
+        byTimestamp.set(snapshot.timestamp, {
+          timestamp: snapshot.timestamp,
+          buckets: { ...snapshot.buckets, ...existing.buckets }
+        });
+      } else {
+        byTimestamp.set(snapshot.timestamp, snapshot);
+        added++;
+      }
+    }
+
+    this.snapshots = [...byTimestamp.values()].sort((a, b) => a.timestamp - b.timestamp);
+    this.prune(Date.now());
+    await this.storage.update(this.storageKey, this.snapshots);
+    return added;
+  }
+
+  public async clear(): Promise<void> {
+    this.snapshots = [];
+    await this.storage.update(this.storageKey, undefined);
+  }
+
+  /**
+   * Starts from what is stored before writing, so snapshots recorded by the window that led
+   * before this one are kept. Snapshots only held in memory are already stored by the
+   * window that recorded them.
+   */
+  private reload() {
+    this.snapshots = [...this.storage.get<QuotaSnapshot[]>(this.storageKey, [])].sort(
+      (a, b) => a.timestamp - b.timestamp
+    );
+  }
+
+  private prune(now: number) {
+    const retentionCutoff = now - this.options.retentionDays * MS_PER_DAY;
+    const downsampleCutoff = now - this.options.downsampleAfterHours * MS_PER_HOUR;
+    const slotMs = Math.max(1, this.options.downsampleMinutes) * MS_PER_MINUTE;
+
+    const kept: QuotaSnapshot[] = [];
+    let lastSlot: number | null = null;
+
+    for (const snapshot of this.snapshots) {
+      if (snapshot.timestamp < retentionCutoff) {
+        continue;
+      }
+      if (snapshot.timestamp < downsampleCutoff) {
+        // Keep the latest sample of each slot so the series still ends on the freshest value
+        const slot = Math.floor(snapshot.timestamp / slotMs);
+        if (slot === lastSlot) {
+          kept[kept.length - 1] = snapshot;
+          continue;
+        }
+        lastSlot = slot;
+      }
+      kept.push(snapshot);
+    }
+
+    this.snapshots = kept;
+  }
+}
@@ -0,0 +1,99 @@
+import { BucketPace, PacingOptions, QuotaBucketId, QuotaSample, WorkingHours } from '../api/types';
+import { getUsedPercent } from '../api/buckets';
+
+const MS_PER_HOUR = 3600000;
+const MS_PER_DAY = 86400000;
+// Within this many percentage points of the curve counts as on pace
+const PACE_TOLERANCE = 2;
+
+/**
+ * Parses "HH:MM-HH:MM". Returns null for an empty or invalid range, or one that ends
+ * before it starts.
+ */
+export function parseWorkingHours(range: string, days: number[]): WorkingHours | null {
+  const match = range.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+  const start = Number(match[1]) * 60 + Number(match[2]);
+  const end = Number(match[3]) * 60 + Number(match[4]);
+  const validDays = days.filter((day) => Number.isInteger(day) && day >= 0 && day <= 6);
+  if (start >= end || end > 24 * 60 || validDays.length === 0) {
+    return null;
+  }
+  return { start, end, days: validDays };
+}
+
+/**
+ * Milliseconds of working time between two instants, in local time.
+ */
+export function getWorkingMs(from: number, to: number, hours: WorkingHours): number {
+  let total = 0;
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+  // Step by calendar day rather than 24h so DST changes do not shift the window
+  for (; day.getTime() < to; day.setDate(day.getDate() + 1)) {
+    if (!hours.days.includes(day.getDay())) {
+      continue;
+    }
+    const start = new Date(day);
+    start.setHours(0, hours.start, 0, 0);
+    const end = new Date(day);
+    end.setHours(0, hours.end, 0, 0);
+    total += Math.max(0, Math.min(to, end.getTime()) - Math.max(from, start.getTime()));
+  }
+  return total;
+}
+
+/**
+ * Compares usage with the ideal curve towards the bucket's target. The curve rises
+ * linearly over the cycle, or only during working hours when those are set and the cycle
+ * contains any.
+ */
+export function getPace(
+  bucket: QuotaBucketId,
+  quota: QuotaSample,
+  cycleHours: number,
+  options: PacingOptions,
+  now: number
+): BucketPace | null {
+  const targetPercent = options.targets[bucket];
+  if (targetPercent === undefined || targetPercent <= 0 || cycleHours <= 0) {
+    return null;
+  }
+
+  const end = new Date(quota.renewsAt).getTime();
+  const start = end - cycleHours * MS_PER_HOUR;
+  const clampedNow = Math.min(Math.max(now, start), end);
+
+  let elapsedMs = clampedNow - start;
+  let totalMs = end - start;
+  const hours = options.workingHours;
+  // Working time is summed day by day, so very long cycles fall back to the linear curve
+  if (hours && totalMs <= 400 * MS_PER_DAY) {
+    const working = getWorkingMs(start, end, hours);
+    if (working > 0) {
+      elapsedMs = getWorkingMs(start, clampedNow, hours);
+      totalMs = working;
+    }
+  }
+
+  const expectedPercent = targetPercent * (elapsedMs / totalMs);
+  const deltaPercent = getUsedPercent(quota) - expectedPercent;
+  const remainingHours = (totalMs - elapsedMs) / MS_PER_HOUR;
+  const remainingRequests = Math.max(0, (targetPercent / 100) * quota.limit - quota.requests);
+
+  return {
+    targetPercent,
+    expectedPercent,
+    deltaPercent,
+    status:
+      deltaPercent > PACE_TOLERANCE
+        ? 'ahead'
+        : deltaPercent < -PACE_TOLERANCE
+          ? 'behind'
+          : 'onPace',
+    allowancePerHour: remainingHours > 0 ? remainingRequests / remainingHours : null,
+    remainingHours
+  };
+}
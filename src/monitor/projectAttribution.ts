@@ -0,0 +1,194 @@
+import { QuotaBucketId, QuotaSnapshot } from '../api/types';
+import { isRenewal } from './sessionTracker';
+
+/**
+ * A workspace folder usage is credited to. The id is the folder URI, so a renamed folder
+ * keeps its totals while the name follows the folder.
+ */
+export interface ProjectRef {
+  id: string;
+  name: string;
+}
+
+export const UNATTRIBUTED_PROJECT: ProjectRef = { id: '', name: 'No workspace' };
+
+/**
+ * How long one window has been focused on each project. Windows share this with the
+ * leader, which turns it into weights for splitting quota deltas.
+ */
+export interface WindowActivity {
+  windowId: string;
+  // Completed focused stretches per project id, in milliseconds
+  focusedMs: Record<string, number>;
+  names: Record<string, string>;
+  // The stretch in progress while the window is focused
+  current: { project: string; since: number } | null;
+  lastFocused: { project: string; at: number } | null;
+}
+
+export type ProjectUsage = Record<string, Record<QuotaBucketId, number>>;
+
+/**
+ * Tracks focused time per project in one window. `update` reports whether anything changed
+ * so the window only republishes its activity on transitions.
+ */
+export class ProjectActivityTracker {
+  private focusedMs: Record<string, number> = {};
+  private names: Record<string, string> = {};
+  private project: ProjectRef | null = null;
+  private focused = false;
+  private since: number | null = null;
+  private lastFocused: { project: string; at: number } | null = null;
+
+  constructor(private windowId: string) {}
+
+  public update(project: ProjectRef | null, focused: boolean, now = Date.now()): boolean {
+    const sameProject = project?.id === this.project?.id && project?.name === this.project?.name;
+    if (sameProject && focused === this.focused) {
+      return false;
+    }
+
+    if (this.project && this.since !== null) {
+      this.focusedMs[this.project.id] = (this.focusedMs[this.project.id] ?? 0) + now - this.since;
+      this.lastFocused = { project: this.project.id, at: now };
+    }
+    this.project = project;
+    this.focused = focused;
+    this.since = project && focused ? now : null;
+    if (project) {
+      this.names[project.id] = project.name;
+      if (focused) {
+        this.lastFocused = { project: project.id, at: now };
+      }
+    }
+    return true;
+  }
+
+  public getActivity(): WindowActivity {
+    return {
+      windowId: this.windowId,
+      focusedMs: { ...this.focusedMs },
+      names: { ...this.names },
+      current:
+        this.project && this.since !== null
+          ? { project: this.project.id, since: this.since }
+          : null,
+      lastFocused: this.lastFocused
+    };
+  }
+}
+
+/**
+ * Focused milliseconds per project up to `now`, including the stretch in progress.
+ */
+export function getFocusTotals(activity: WindowActivity, now: number): Record<string, number> {
+  const totals = { ...activity.focusedMs };
+  if (activity.current) {
+    const { project, since } = activity.current;
+    totals[project] = (totals[project] ?? 0) + Math.max(0, now - since);
+  }
+  return totals;
+}
+
+export interface FocusWeights {
+  weights: Record<string, number>;
+  names: Record<string, string>;
+  // Per-window totals to pass back as `previous` for the next interval
+  totals: Record<string, Record<string, number>>;
+}
+
+/**
+ * Weighs projects by how long each was focused in any window during the last `intervalMs`.
+ * Windows seen for the first time only count up to the interval. When no window was
+ * focused, e.g. while an agent ran in the background, the most recently focused project
+ * gets everything.
+ */
+export function getFocusWeights(
+  activities: WindowActivity[],
+  previous: Record<string, Record<string, number>>,
+  intervalMs: number,
+  now: number
+): FocusWeights {
+  const weights: Record<string, number> = {};
+  const names: Record<string, string> = {};
+  const totals: Record<string, Record<string, number>> = {};
+
+  for (const activity of activities) {
+    Object.assign(names, activity.names);
+    const current = getFocusTotals(activity, now);
+    totals[activity.windowId] = current;
+
+    const increments: Record<string, number> = {};
+    let sum = 0;
+    for (const [project, ms] of Object.entries(current)) {
+      const increment = Math.max(0, ms - (previous[activity.windowId]?.[project] ?? 0));
+      if (increment > 0) {
+        increments[project] = increment;
+        sum += increment;
+      }
+    }
+    // One window cannot have been focused for longer than the interval
+    const scale = sum > intervalMs ? intervalMs / sum : 1;
+    for (const [project, increment] of Object.entries(increments)) {
+      weights[project] = (weights[project] ?? 0) + increment * scale;
+    }
+  }
+
+  if (Object.keys(weights).length === 0) {
+    const latest = activities
+      .map((activity) => activity.lastFocused)
+      .filter((focus): focus is { project: string; at: number } => !!focus)
+      .sort((a, b) => b.at - a.at)[0];
+    if (latest) {
+      weights[latest.project] = 1;
+    }
+  }
+
+  return { weights, names, totals };
+}
+
+/**
+ * Requests used per bucket between two snapshots. After a reset the new cycle's usage is
+ * the delta, since everything used before it was already counted.
+ */
+export function getUsageDeltas(
+  previous: QuotaSnapshot,
+  current: QuotaSnapshot
+): Record<QuotaBucketId, number> {
+  const deltas: Record<QuotaBucketId, number> = {};
+  for (const [bucket, sample] of Object.entries(current.buckets)) {
+    const before = previous.buckets[bucket];
+    if (!before) {
+      continue;
+    }
+    const delta = isRenewal(before, sample) ? sample.requests : sample.requests - before.requests;
+    if (delta > 0) {
+      deltas[bucket] = delta;
+    }
+  }
+  return deltas;
+}
+
+/**
+ * Splits deltas between projects in proportion to their weights. Without any weight the
+ * usage is credited to `UNATTRIBUTED_PROJECT`.
+ */
+export function splitUsage(
+  deltas: Record<QuotaBucketId, number>,
+  weights: Record<string, number>
+): ProjectUsage {
+  const total = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  const shares: Array<[string, number]> =
+    total > 0
+      ? Object.entries(weights).map(([project, weight]) => [project, weight / total])
+      : [[UNATTRIBUTED_PROJECT.id, 1]];
+
+  const usage: ProjectUsage = {};
+  for (const [project, share] of shares) {
+    for (const [bucket, delta] of Object.entries(deltas)) {
+      usage[project] = usage[project] ?? {};
+      usage[project][bucket] = delta * share;
+    }
+  }
+  return usage;
+}
@@ -0,0 +1,150 @@
+import type { Memento } from 'vscode';
+import { QuotaBucketId } from '../api/types';
+import { ProjectUsage, UNATTRIBUTED_PROJECT } from './projectAttribution';
+import { DEFAULT_ACCOUNT_ID, storageKeyFor } from '../services/accountManager';
+
+const STORAGE_KEY = 'syntheticQuota.projects';
+const MS_PER_DAY = 86400000;
+
+interface ProjectRecord {
+  name: string;
+  // Requests per bucket for each local day, keyed YYYY-MM-DD
+  days: Record<string, Record<QuotaBucketId, number>>;
+}
+
+export interface ProjectUsageSummary {
+  id: string;
+  name: string;
+  today: Record<QuotaBucketId, number>;
+  total: Record<QuotaBucketId, number>;
+}
+
+export interface ProjectUsageRow {
+  date: string;
+  project: string;
+  name: string;
+  bucket: QuotaBucketId;
+  requests: number;
+}
+
+export function toDateKey(timestamp: number): string {
+  const date = new Date(timestamp);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Requests credited to each workspace folder, totalled per local day so the dashboard can
+ * show today next to the whole retention window. Days older than the retention are dropped.
+ */
+export class ProjectUsageStore {
+  private storageKey: string;
+
+  constructor(
+    private storage: Memento,
+    private retentionDays: number,
+    accountId = DEFAULT_ACCOUNT_ID
+  ) {
+    this.storageKey = storageKeyFor(STORAGE_KEY, accountId);
+  }
+
+  public configure(retentionDays: number) {
+    this.retentionDays = retentionDays;
+  }
+
+  public async add(usage: ProjectUsage, names: Record<string, string>, timestamp: number) {
+    const projects = this.read();
+    const day = toDateKey(timestamp);
+    for (const [project, buckets] of Object.entries(usage)) {
+      const record = projects[project] ?? { name: '', days: {} };
+      record.name = names[project] ?? (record.name || this.getDefaultName(project));
+      const totals = (record.days[day] = record.days[day] ?? {});
+      for (const [bucket, requests] of Object.entries(buckets)) {
+        totals[bucket] = (totals[bucket] ?? 0) + requests;
+      }
+      projects[project] = record;
+    }
+    this.prune(projects, timestamp);
+    await this.storage.update(this.storageKey, projects);
+  }
+
+  /**
+   * Per-project totals for today and the whole retention window, busiest project first.
+   */
+  public getSummaries(now = Date.now()): ProjectUsageSummary[] {
+    const today = toDateKey(now);
+    return Object.entries(this.read())
+      .map(([id, record]) => {
+        const total: Record<QuotaBucketId, number> = {};
+        for (const buckets of Object.values(record.days)) {
+          for (const [bucket, requests] of Object.entries(buckets)) {
+            total[bucket] = (total[bucket] ?? 0) + requests;
+          }
+        }
+        return { id, name: record.name, today: { ...record.days[today] }, total };
+      })
+      .sort((a, b) => sum(b.total) - sum(a.total));
+  }
+
+  public getRows(filter: { from?: number; to?: number } = {}): ProjectUsageRow[] {
+    const from = filter.from !== undefined ? toDateKey(filter.from) : undefined;
+    const to = filter.to !== undefined ? toDateKey(filter.to) : undefined;
+    const rows: ProjectUsageRow[] = [];
+    for (const [project, record] of Object.entries(this.read())) {
+      for (const [date, buckets] of Object.entries(record.days)) {
+        if ((from && date < from) || (to && date > to)) {
+          continue;
+        }
+        for (const [bucket, requests] of Object.entries(buckets)) {
+          rows.push({ date, project, name: record.name, bucket, requests });
+        }
+      }
+    }
+    return rows.sort((a, b) => a.date.localeCompare(b.date) || a.name.localeCompare(b.name));
+  }
+
+  public async clear(): Promise<void> {
+    await this.storage.update(this.storageKey, undefined);
+  }
+
+  private getDefaultName(project: string): string {
+    return project === UNATTRIBUTED_PROJECT.id ? UNATTRIBUTED_PROJECT.name : project;
+  }
+
+  /**
+   * A copy of the stored totals. Only the leading window adds to them and the lead can move
+   * to another window, so they are read afresh rather than kept from when this one opened.
+   */
+  private read(): Record<string, ProjectRecord> {
+    const stored = this.storage.get<Record<string, ProjectRecord>>(this.storageKey) ?? {};
+    return Object.fromEntries(
+      Object.entries(stored).map(([project, record]) => [
+        project,
+        {
+          name: record.name,
+          days: Object.fromEntries(
+            Object.entries(record.days).map(([date, buckets]) => [date, { ...buckets }])
+          )
+        }
+      ])
+    );
+  }
+
+  private prune(projects: Record<string, ProjectRecord>, now: number) {
+    const cutoff = toDateKey(now - this.retentionDays * MS_PER_DAY);
+    for (const [project, record] of Object.entries(projects)) {
+      for (const date of Object.keys(record.days)) {
+        if (date < cutoff) {
+          delete record.days[date];
+        }
+      }
+      if (Object.keys(record.days).length === 0) {
+        delete projects[project];
+      }
+    }
+  }
+}
+
+function sum(buckets: Record<QuotaBucketId, number>): number {
+  return Object.values(buckets).reduce((total, requests) => total + requests, 0);
+}
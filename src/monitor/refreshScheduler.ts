@@ -0,0 +1,92 @@
+import { QuotaData, BucketAnalytics } from '../api/types';
+import { getUsedPercent } from '../api/buckets';
+
+const MIN_INTERVAL_MS = 60000;
+const MAX_INTERVAL_MS = 3600000;
+// Renewal times are rounded by the API; wait a little so the fetch sees the new cycle
+const RESET_GRACE_MS = 5000;
+
+const HIGH_BURN_RATE = 10;
+const THRESHOLD_MARGIN = 5;
+
+export type RefreshReason = 'normal' | 'busy' | 'unfocused' | 'idle' | 'reset' | 'rateLimit';
+
+export interface RefreshScheduleInput {
+  now: number;
+  lastRefresh: number;
+  // The refreshInterval setting in milliseconds
+  baseIntervalMs: number;
+  adaptive: boolean;
+  data: QuotaData | null;
+  analytics: BucketAnalytics;
+  thresholds: number[];
+  focused: boolean;
+  idle: boolean;
+  retryNotBefore: number;
+}
+
+export interface RefreshSchedule {
+  at: number;
+  reason: RefreshReason;
+}
+
+/**
+ * Picks when an account should be fetched next. Polling speeds up to half the configured
+ * interval while quota burns fast or sits just short of a threshold, slows down three
+ * times while the window is unfocused and six times while the user is idle, and always
+ * fetches shortly after a bucket renews so the reset shows up immediately.
+ */
+export function getNextRefresh(input: RefreshScheduleInput): RefreshSchedule {
+  const base = Math.max(MIN_INTERVAL_MS, input.baseIntervalMs);
+  let interval = base;
+  let reason: RefreshReason = 'normal';
+
+  if (input.adaptive) {
+    if (input.idle) {
+      interval = base * 6;
+      reason = 'idle';
+    } else if (!input.focused) {
+      interval = base * 3;
+      reason = 'unfocused';
+    } else if (isBusy(input)) {
+      interval = base / 2;
+      reason = 'busy';
+    }
+    interval = Math.min(Math.max(interval, MIN_INTERVAL_MS), Math.max(base, MAX_INTERVAL_MS));
+  }
+
+  let at = input.lastRefresh + interval;
+
+  if (input.adaptive && input.data) {
+    for (const bucket of input.data.buckets) {
+      const renewal = new Date(bucket.renewsAt).getTime() + RESET_GRACE_MS;
+      if (renewal > input.lastRefresh && renewal < at) {
+        at = renewal;
+        reason = 'reset';
+      }
+    }
+  }
+
+  if (at < input.retryNotBefore) {
+    return { at: input.retryNotBefore, reason: 'rateLimit' };
+  }
+  return { at: Math.max(at, input.now), reason };
+}
+
+function isBusy(input: RefreshScheduleInput): boolean {
+  if (!input.data) {
+    return false;
+  }
+  return input.data.buckets.some((bucket) => {
+    const used = getUsedPercent(bucket);
+    if (used >= 100) {
+      return false;
+    }
+    if ((input.analytics[bucket.id]?.burnRatePerHour ?? 0) >= HIGH_BURN_RATE) {
+      return true;
+    }
+    return input.thresholds.some(
+      (threshold) => used < threshold && used >= threshold - THRESHOLD_MARGIN
+    );
+  });
+}
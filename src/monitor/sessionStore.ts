@@ -0,0 +1,48 @@
+import type { Memento } from 'vscode';
+import { SessionSummary } from './sessionSummary';
+import { DEFAULT_ACCOUNT_ID, storageKeyFor } from '../services/accountManager';
+
+const STORAGE_KEY = 'syntheticQuota.sessions';
+const MS_PER_DAY = 86400000;
+
+/**
+ * Summaries of finished sessions, ordered by when they ended, for comparing past sessions
+ * on the dashboard. Only the summary is kept; sessions that ended before the retention
+ * window are dropped.
+ */
+export class SessionStore {
+  private storageKey: string;
+
+  constructor(
+    private storage: Memento,
+    private retentionDays: number,
+    accountId = DEFAULT_ACCOUNT_ID
+  ) {
+    this.storageKey = storageKeyFor(STORAGE_KEY, accountId);
+  }
+
+  public configure(retentionDays: number) {
+    this.retentionDays = retentionDays;
+  }
+
+  public async add(summary: SessionSummary): Promise<void> {
+    // Read again first: a session can end in any window
+    const sessions = [...this.getSessions(), summary].sort((a, b) => a.end - b.end);
+    const cutoff = summary.end - this.retentionDays * MS_PER_DAY;
+    await this.storage.update(
+      this.storageKey,
+      sessions.filter((session) => session.end >= cutoff)
+    );
+  }
+
+  /**
+   * Finished sessions, oldest first.
+   */
+  public getSessions(): SessionSummary[] {
+    return [...this.storage.get<SessionSummary[]>(this.storageKey, [])];
+  }
+
+  public async clear(): Promise<void> {
+    await this.storage.update(this.storageKey, undefined);
+  }
+}
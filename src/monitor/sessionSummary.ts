@@ -0,0 +1,103 @@
+import { QuotaBucketId, QuotaSnapshot, SessionTracker } from '../api/types';
+import { getUsedPercent } from '../api/buckets';
+
+const MS_PER_HOUR = 3600000;
+// Shortest stretch the peak burn rate is measured over, so one quick poll can't dominate it
+const PEAK_WINDOW_MS = 10 * 60000;
+
+export interface SessionBucketSummary {
+  // Percentage points and requests used during the session, adding up every cycle's share
+  used: number;
+  requests: number;
+  // Resets crossed during the session
+  resets: number;
+  // Highest burn rate over any ten minutes of the session, in %/h
+  peakBurnRate: number;
+  // Whether the bucket was at its limit at any point during the session
+  limitHit: boolean;
+}
+
+export interface SessionSummary {
+  name: string | null;
+  start: number;
+  end: number;
+  buckets: Record<QuotaBucketId, SessionBucketSummary>;
+}
+
+/**
+ * Summarizes a session: usage as counted by the session, peak burn rate and limits from the
+ * snapshots recorded while it ran.
+ */
+export function summarizeSession(
+  session: SessionTracker,
+  snapshots: QuotaSnapshot[],
+  end: number
+): SessionSummary {
+  const recorded = snapshots
+    .filter((s) => s.timestamp >= session.sessionStartTime && s.timestamp <= end)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  const buckets: Record<QuotaBucketId, SessionBucketSummary> = {};
+  for (const bucket of Object.keys(session.counted ?? session.initialUsage)) {
+    const initial = session.initialUsage[bucket];
+    const present = recorded.filter((s) => s.buckets[bucket]);
+    const samples = [
+      ...(initial !== undefined
+        ? [{ timestamp: session.sessionStartTime, used: initial * 100 }]
+        : []),
+      ...present.map((s) => ({
+        timestamp: s.timestamp,
+        used: getUsedPercent(s.buckets[bucket])
+      }))
+    ];
+    const counted = session.counted?.[bucket];
+    // Sessions from older versions only know their starting point
+    const latest = present[present.length - 1]?.buckets[bucket];
+    const used = counted
+      ? counted.percent
+      : latest && initial !== undefined
+        ? getUsedPercent(latest) - initial * 100
+        : 0;
+    buckets[bucket] = {
+      used: round(used),
+      requests: counted ? counted.requests : Math.round((used / 100) * (latest?.limit ?? 0)),
+      resets: counted?.resets ?? 0,
+      peakBurnRate: round(getPeakBurnRate(samples)),
+      limitHit: present.some((s) => s.buckets[bucket].requests >= s.buckets[bucket].limit)
+    };
+  }
+
+  return { name: session.name ?? null, start: session.sessionStartTime, end, buckets };
+}
+
+/**
+ * Fastest climb in usage over at least `PEAK_WINDOW_MS`, or over the whole session when it
+ * is shorter. Stretches with a reset in them are skipped.
+ */
+function getPeakBurnRate(samples: Array<{ timestamp: number; used: number }>): number {
+  let peak = 0;
+  for (let i = 0; i < samples.length - 1; i++) {
+    let j = samples.findIndex(
+      (s, k) => k > i && s.timestamp - samples[i].timestamp >= PEAK_WINDOW_MS
+    );
+    if (j === -1) {
+      if (i > 0) {
+        break;
+      }
+      j = samples.length - 1;
+    }
+    const stretch = samples.slice(i, j + 1);
+    if (stretch.some((s, k) => k > 0 && s.used < stretch[k - 1].used)) {
+      continue;
+    }
+    const hours = (samples[j].timestamp - samples[i].timestamp) / MS_PER_HOUR;
+    if (hours > 0) {
+      peak = Math.max(peak, (samples[j].used - samples[i].used) / hours);
+    }
+  }
+  return peak;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10) / 10;
+}
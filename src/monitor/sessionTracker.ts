@@ -1,161 +1,492 @@
-import { QuotaData, SessionTracker, QuotaAnalytics } from '../api/types';
+import {
+  QuotaData,
+  SessionTracker,
+  SessionBucketUsage,
+  CountedSessionUsage,
+  QuotaAnalytics,
+  QuotaSnapshot,
+  QuotaBucketId,
+  QuotaSample,
+  BucketAnalytics,
+  ResetEvent,
+  PacingOptions,
+  ForecastModelId,
+  ForecastModelSetting,
+  SpikeSensitivity
+} from '../api/types';
+import { getDefaultCycleHours, getUsedPercent } from '../api/buckets';
+import { getPace } from './pacing';
+import { detectSpike } from './spikeDetector';
+import {
+  DEFAULT_FORECAST_MODEL,
+  FORECASTERS,
+  BacktestResult,
+  UsageCycle,
+  selectForecaster
+} from './forecasting';
 
 const MS_PER_HOUR = 3600000;
 
+// renewsAt has to move forward by more than this to count as a new cycle
+export const RENEWAL_TOLERANCE_MS = 60000;
+// Number of observed resets needed before the learned cycle length replaces the fallback
+const MIN_RESETS_FOR_LEARNING = 2;
+// Observed resets kept per bucket for the cycle length estimate
+const MAX_RESETS_PER_BUCKET = 20;
+
+// How much history is kept in memory for analytics; the full record lives in the HistoryStore
+const ANALYTICS_WINDOW_MS = 48 * MS_PER_HOUR;
+
+/**
+ * Whether a bucket started a new cycle between two samples. Only renewsAt decides: a bucket
+ * that sat idle through its reset goes from zero to zero requests, and the API moving
+ * renewsAt by a few seconds between polls is not a reset.
+ */
+export function isRenewal(
+  before: Pick<QuotaSample, 'renewsAt'>,
+  after: Pick<QuotaSample, 'renewsAt'>
+): boolean {
+  return (
+    new Date(after.renewsAt).getTime() - new Date(before.renewsAt).getTime() > RENEWAL_TOLERANCE_MS
+  );
+}
+
+/**
+ * Resets between two consecutive snapshots, as told by `isRenewal`.
+ */
+export function detectResets(previous: QuotaSnapshot, current: QuotaSnapshot): ResetEvent[] {
+  const events: ResetEvent[] = [];
+  for (const bucket of Object.keys(current.buckets)) {
+    const before = previous.buckets[bucket];
+    const after = current.buckets[bucket];
+    if (!before || !after) {
+      continue;
+    }
+    if (isRenewal(before, after)) {
+      events.push({
+        bucket,
+        timestamp: current.timestamp,
+        previousRenewsAt: before.renewsAt,
+        renewsAt: after.renewsAt,
+        requestsBefore: before.requests,
+        requestsAfter: after.requests
+      });
+    }
+  }
+  return events;
+}
+
+/**
+ * Adds a bucket's latest sample to its session usage. After a reset the new cycle counts from
+ * zero, so usage on both sides of the reset adds up instead of cancelling out. Usage between
+ * the last sample before a reset and the reset itself is not seen.
+ */
+export function countSessionSample(
+  counted: CountedSessionUsage,
+  sample: QuotaSample
+): CountedSessionUsage {
+  const { last } = counted;
+  const renewed = isRenewal(last, sample);
+  // Usage never goes down within a cycle; a lower count without a renewal adds nothing
+  return {
+    percent:
+      counted.percent +
+      (renewed
+        ? getUsedPercent(sample)
+        : Math.max(0, getUsedPercent(sample) - getUsedPercent(last))),
+    requests:
+      counted.requests + (renewed ? sample.requests : Math.max(0, sample.requests - last.requests)),
+    resets: counted.resets + (renewed ? 1 : 0),
+    last: { limit: sample.limit, requests: sample.requests, renewsAt: sample.renewsAt }
+  };
+}
+
+function startCount(sample: QuotaSample): CountedSessionUsage {
+  return {
+    percent: 0,
+    requests: 0,
+    resets: 0,
+    last: { limit: sample.limit, requests: sample.requests, renewsAt: sample.renewsAt }
+  };
+}
+
 export class AnalyticsEngine {
   private sessionTracker: SessionTracker | null = null;
+  private history: QuotaSnapshot[] = [];
+  private resets: ResetEvent[] = [];
+  private cycleOverrides: Record<QuotaBucketId, number> = {};
+  private pacing: PacingOptions = { targets: {}, workingHours: null };
+  private forecastModel: ForecastModelSetting = 'auto';
+  private spikeSensitivity: SpikeSensitivity = 'medium';
+  private forecastSelections = new Map<
+    QuotaBucketId,
+    { key: string; result: BacktestResult | null }
+  >();
+  private resetListeners: Array<(event: ResetEvent) => void> = [];
 
-  public initialize(data: QuotaData, trackSession: boolean) {
+  public initialize(data: QuotaData, trackSession: boolean, now = Date.now()) {
     if (!trackSession) {
       this.sessionTracker = null;
       return;
     }
+    this.startSession(data, null, now);
+  }
+
+  /**
+   * Starts a session with the current usage as its baseline, replacing any running one.
+   */
+  public startSession(data: QuotaData, name: string | null, now = Date.now()) {
+    const initialUsage: Record<QuotaBucketId, number> = {};
+    const counted: Record<QuotaBucketId, CountedSessionUsage> = {};
+    for (const bucket of data.buckets) {
+      initialUsage[bucket.id] = getUsedPercent(bucket) / 100;
+      counted[bucket.id] = startCount(bucket);
+    }
+
+    this.sessionTracker = { sessionStartTime: now, initialUsage, name, counted };
+  }
+
+  public getSession(): SessionTracker | null {
+    return this.sessionTracker;
+  }
+
+  /**
+   * Continues a session started elsewhere, e.g. by another window.
+   */
+  public setSession(session: SessionTracker | null) {
+    this.sessionTracker = session;
+  }
+
+  public getSessionStartTime(): number | null {
+    return this.sessionTracker?.sessionStartTime ?? null;
+  }
+
+  /**
+   * Seeds the engine with previously persisted snapshots so burn rate and trend
+   * are available immediately after activation.
+   */
+  public loadHistory(snapshots: QuotaSnapshot[]) {
+    this.history = [...snapshots].sort((a, b) => a.timestamp - b.timestamp);
+    this.resets = [];
+    // Replay the full history so cycle lengths are learned from past resets as well
+    for (let i = 1; i < this.history.length; i++) {
+      this.recordResets(detectResets(this.history[i - 1], this.history[i]));
+    }
+    this.trimHistory();
+  }
+
+  public updateHistory(snapshot: QuotaSnapshot) {
+    const previous = this.history[this.history.length - 1];
+    this.history.push(snapshot);
+    this.trimHistory();
+    this.countSession(snapshot);
+
+    if (previous) {
+      const events = detectResets(previous, snapshot);
+      this.recordResets(events);
+      events.forEach((event) => this.resetListeners.forEach((listener) => listener(event)));
+    }
+  }
+
+  /**
+   * Subscribes to bucket resets, detected when renewsAt jumps forward between two
+   * consecutive snapshots.
+   */
+  public onReset(listener: (event: ResetEvent) => void): { dispose(): void } {
+    this.resetListeners.push(listener);
+    return {
+      dispose: () => {
+        this.resetListeners = this.resetListeners.filter((l) => l !== listener);
+      }
+    };
+  }
+
+  public getResets(bucket?: QuotaBucketId): ResetEvent[] {
+    return bucket ? this.resets.filter((r) => r.bucket === bucket) : [...this.resets];
+  }
+
+  /**
+   * Cycle lengths to use until enough resets have been observed to learn them.
+   */
+  public setCycleOverrides(overrides: Record<QuotaBucketId, number>) {
+    this.cycleOverrides = overrides;
+  }
+
+  /**
+   * Usage targets to pace each cycle against.
+   */
+  public setPacing(options: PacingOptions) {
+    this.pacing = options;
+  }
+
+  public setForecastModel(model: ForecastModelSetting) {
+    this.forecastModel = model;
+  }
+
+  public setSpikeSensitivity(sensitivity: SpikeSensitivity) {
+    this.spikeSensitivity = sensitivity;
+  }
 
-    const now = Date.now();
-    const subscriptionPercent = data.subscription.requests / data.subscription.limit;
-    const toolCallsPercent = data.freeToolCalls.requests / data.freeToolCalls.limit;
-    const searchPercent = data.search.hourly.requests / data.search.hourly.limit;
+  /**
+   * Cycle length of a bucket, taken as the median renewsAt jump over observed resets.
+   * The median keeps the estimate stable when a gap in polling spans several cycles.
+   */
+  public getCycleHours(bucket: QuotaBucketId): {
+    hours: number;
+    source: 'learned' | 'configured';
+  } {
+    const lengths = this.getResets(bucket)
+      .map((r) => new Date(r.renewsAt).getTime() - new Date(r.previousRenewsAt).getTime())
+      .sort((a, b) => a - b);
+
+    if (lengths.length >= MIN_RESETS_FOR_LEARNING) {
+      const mid = Math.floor(lengths.length / 2);
+      const median =
+        lengths.length % 2 === 0 ? (lengths[mid - 1] + lengths[mid]) / 2 : lengths[mid];
+      return { hours: median / MS_PER_HOUR, source: 'learned' };
+    }
 
-    this.sessionTracker = {
-      sessionStartTime: now,
-      initialSubscriptionQuota: subscriptionPercent,
-      initialToolCallsQuota: toolCallsPercent,
-      initialSearchQuota: searchPercent,
-      history: [{ timestamp: now, subscriptionUsed: subscriptionPercent }]
+    const override = this.cycleOverrides[bucket];
+    return {
+      hours: override && override > 0 ? override : getDefaultCycleHours(bucket),
+      source: 'configured'
     };
   }
 
-  public updateHistory(data: QuotaData) {
-    if (!this.sessionTracker) {
+  private countSession(snapshot: QuotaSnapshot) {
+    const session = this.sessionTracker;
+    if (!session?.counted) {
       return;
     }
+    const counted = { ...session.counted };
+    for (const [bucket, sample] of Object.entries(snapshot.buckets)) {
+      // Buckets that appeared after the session started count from their first sighting
+      counted[bucket] = counted[bucket]
+        ? countSessionSample(counted[bucket], sample)
+        : startCount(sample);
+    }
+    this.sessionTracker = { ...session, counted };
+  }
+
+  private recordResets(events: ResetEvent[]) {
+    for (const event of events) {
+      this.resets.push(event);
+      const forBucket = this.resets.filter((r) => r.bucket === event.bucket);
+      if (forBucket.length > MAX_RESETS_PER_BUCKET) {
+        this.resets.splice(this.resets.indexOf(forBucket[0]), 1);
+      }
+    }
+  }
 
-    const now = Date.now();
-    const subscriptionPercent = data.subscription.requests / data.subscription.limit;
+  private trimHistory() {
+    const last = this.history[this.history.length - 1];
+    if (!last) {
+      return;
+    }
+    const cutoff = last.timestamp - ANALYTICS_WINDOW_MS;
+    while (this.history.length > 0 && this.history[0].timestamp < cutoff) {
+      this.history.shift();
+    }
+  }
 
-    this.sessionTracker.history.push({ timestamp: now, subscriptionUsed: subscriptionPercent });
-    if (this.sessionTracker.history.length > 10) {
-      this.sessionTracker.history.shift();
+  /**
+   * Samples of one bucket belonging to its current cycle: everything after the most
+   * recent renewal and no older than one cycle.
+   */
+  private getCycleHistory(
+    bucket: QuotaBucketId,
+    now: number,
+    cycleHours: number
+  ): Array<{ timestamp: number; used: number }> {
+    const cutoff = now - cycleHours * MS_PER_HOUR;
+    const recorded = this.history.filter(
+      (s) => s.timestamp >= cutoff && s.timestamp <= now && s.buckets[bucket]
+    );
+    let start = 0;
+    for (let i = recorded.length - 1; i > 0; i--) {
+      if (isRenewal(recorded[i - 1].buckets[bucket], recorded[i].buckets[bucket])) {
+        start = i;
+        break;
+      }
     }
+    return recorded.slice(start).map((s) => ({
+      timestamp: s.timestamp,
+      used: getUsedPercent(s.buckets[bucket]) / 100
+    }));
   }
 
-  public getAnalytics(data: QuotaData, nowOverride?: number): QuotaAnalytics {
+  public getAnalytics(data: QuotaData, nowOverride?: number): BucketAnalytics {
     const now = nowOverride || Date.now();
-    const subscription = data.subscription;
-    const usedPercent = (subscription.requests / subscription.limit) * 100;
+    const analytics: BucketAnalytics = {};
+    for (const bucket of data.buckets) {
+      analytics[bucket.id] = this.getBucketAnalytics(bucket.id, bucket, now);
+    }
+    return analytics;
+  }
+
+  private getBucketAnalytics(
+    bucket: QuotaBucketId,
+    quota: QuotaSample,
+    now: number
+  ): QuotaAnalytics {
+    const usedPercent = getUsedPercent(quota);
     const remainingPercent = 100 - usedPercent;
 
-    const resetTime = new Date(subscription.renewsAt).getTime();
+    const resetTime = new Date(quota.renewsAt).getTime();
     const timeUntilReset = Math.max(0, resetTime - now);
     const hoursUntilReset = timeUntilReset / MS_PER_HOUR;
 
-    // Synthetic API has a 5-hour reset cycle
-    const cycleHours = 5;
+    const cycle = this.getCycleHours(bucket);
+    const cycleHours = cycle.hours;
     const hoursElapsedInCycle = Math.max(0, cycleHours - hoursUntilReset);
 
-    // Calculate global burn rate (historical daily average baseline)
-    let globalBurnRatePerHour = 0;
-    if (hoursElapsedInCycle > 0.1) {
-      globalBurnRatePerHour = usedPercent / hoursElapsedInCycle;
-    }
+    const history = this.getCycleHistory(bucket, now, cycleHours);
 
-    // Calculate session burn rate for trend analysis and hybrid prediction
-    let sessionBurnRatePerHour = 0;
     let trend: 'up' | 'down' | 'stable' = 'stable';
-    let isSessionReliable = false;
-
-    if (this.sessionTracker && this.sessionTracker.history.length >= 2) {
-      const history = this.sessionTracker.history;
-      const first = history[0];
-      const last = history[history.length - 1];
-      const sessionHoursElapsed = (last.timestamp - first.timestamp) / MS_PER_HOUR;
-
+    if (history.length >= 3) {
+      const sessionHoursElapsed =
+        (history[history.length - 1].timestamp - history[0].timestamp) / MS_PER_HOUR;
+      // Minimum 3 minutes to be considered reliable
       if (sessionHoursElapsed > 0.05) {
-        // Minimum 3 minutes to be considered reliable
-        isSessionReliable = true;
-        const usageChange = (last.subscriptionUsed - first.subscriptionUsed) * 100;
-        sessionBurnRatePerHour = Math.max(0, usageChange / sessionHoursElapsed);
-
-        if (history.length >= 3) {
-          const recent = history.slice(-3);
-          const recentChange = (recent[2].subscriptionUsed - recent[0].subscriptionUsed) * 100;
-          // Only show up/down if change is significant (>0.1%)
-          if (recentChange > 0.1) {
-            trend = 'up';
-          } else if (recentChange < -0.1) {
-            trend = 'down';
-          } else {
-            trend = 'stable';
-          }
+        const recent = history.slice(-3);
+        const recentChange = (recent[2].used - recent[0].used) * 100;
+        // Only show up/down if change is significant (>0.1%)
+        if (recentChange > 0.1) {
+          trend = 'up';
+        } else if (recentChange < -0.1) {
+          trend = 'down';
         }
       }
     }
 
-    // Hybrid Prediction Logic:
-    // We blend the Global Rate (long-term baseline) with the Session Rate (immediate impact).
-    // If the session is active and reliable, we weigh it into the prediction.
-    let effectiveBurnRate = globalBurnRatePerHour;
-
-    if (isSessionReliable) {
-      // Weighted Average: 70% Global (Stability), 30% Session (Responsiveness)
-      // This prevents wild swings from short bursts while still reacting to high-usage sessions.
-      effectiveBurnRate = globalBurnRatePerHour * 0.7 + sessionBurnRatePerHour * 0.3;
-    }
-
-    const burnRatePerHour = effectiveBurnRate;
+    const samples = history.map((h) => ({ timestamp: h.timestamp, used: h.used * 100 }));
+    const model = this.getForecastModel(bucket);
+    const forecast = FORECASTERS[model.id].forecast({
+      samples,
+      now,
+      usedPercent,
+      hoursElapsedInCycle,
+      hoursUntilReset
+    });
+    const burnRatePerHour = forecast.ratePerHour;
 
-    // Calculate hours until depletion (only if it happens before reset)
-    let hoursUntilDepletion: number | null = null;
-    if (burnRatePerHour > 1 && remainingPercent > 0 && hoursUntilReset > 0) {
-      const calculatedDepletion = remainingPercent / burnRatePerHour;
-      // Only show depletion if it happens before the quota resets
-      if (calculatedDepletion < hoursUntilReset) {
-        hoursUntilDepletion = calculatedDepletion;
+    // Depletion only counts if it happens before the quota resets
+    const getDepletion = (rate: number): number | null => {
+      if (rate <= 1 || remainingPercent <= 0 || hoursUntilReset <= 0) {
+        return null;
       }
-    }
+      const hours = remainingPercent / rate;
+      return hours < hoursUntilReset ? hours : null;
+    };
     // FORECAST: Predicted Total Usage at Reset
-    let projectedUsageAtReset: number | null = null;
-    if (hoursUntilReset > 0) {
-      const remainingUsageForecast = burnRatePerHour * hoursUntilReset;
-      projectedUsageAtReset = Math.min(100, Math.round(usedPercent + remainingUsageForecast));
-    }
+    const getProjection = (rate: number): number | null =>
+      hoursUntilReset > 0 ? Math.min(100, Math.round(usedPercent + rate * hoursUntilReset)) : null;
 
     // Map history to simple objects for the graph
-    const sessionHistory = this.sessionTracker
-      ? this.sessionTracker.history.map((h) => ({
-          timestamp: h.timestamp,
-          usage: Math.round(h.subscriptionUsed * 100)
-        }))
-      : [];
+    const sessionHistory = history.map((h) => ({
+      timestamp: h.timestamp,
+      usage: Math.round(h.used * 100)
+    }));
 
     return {
       burnRatePerHour,
-      hoursUntilDepletion,
+      hoursUntilDepletion: getDepletion(burnRatePerHour),
+      // A faster burn runs out sooner
+      hoursUntilDepletionLow: getDepletion(forecast.high),
+      hoursUntilDepletionHigh: getDepletion(forecast.low),
       trend,
-      projectedUsageAtReset,
-      sessionHistory
+      projectedUsageAtReset: getProjection(burnRatePerHour),
+      projectedUsageAtResetLow: getProjection(forecast.low),
+      projectedUsageAtResetHigh: getProjection(forecast.high),
+      forecastModel: model.id,
+      forecastSource: model.source,
+      sessionHistory,
+      cycleHours,
+      cycleSource: cycle.source,
+      pace: getPace(bucket, quota, cycleHours, this.pacing, now),
+      spike: detectSpike(samples, cycleHours, this.spikeSensitivity, now)
     };
   }
 
-  public getSessionUsage(data: QuotaData): {
-    subscription: number;
-    toolCalls: number;
-    search: number;
+  /**
+   * The configured model, or with 'auto' the one that predicted this bucket's recorded
+   * cycles best. The backtest only reruns when the history has changed.
+   */
+  private getForecastModel(bucket: QuotaBucketId): {
+    id: ForecastModelId;
+    source: 'backtest' | 'default' | 'configured';
   } {
-    if (!this.sessionTracker) {
-      return { subscription: 0, toolCalls: 0, search: 0 };
+    if (this.forecastModel !== 'auto') {
+      return { id: this.forecastModel, source: 'configured' };
+    }
+    const last = this.history[this.history.length - 1];
+    const key = `${this.history.length}:${this.history[0]?.timestamp}:${last?.timestamp}`;
+    let selection = this.forecastSelections.get(bucket);
+    if (selection?.key !== key) {
+      selection = { key, result: selectForecaster(this.getUsageCycles(bucket)) };
+      this.forecastSelections.set(bucket, selection);
     }
+    return selection.result
+      ? { id: selection.result.model, source: 'backtest' }
+      : { id: DEFAULT_FORECAST_MODEL, source: 'default' };
+  }
 
-    const currentSubPercent = data.subscription.requests / data.subscription.limit;
-    const currentToolPercent = data.freeToolCalls.requests / data.freeToolCalls.limit;
-    const currentSearchPercent = data.search.hourly.requests / data.search.hourly.limit;
+  /**
+   * The in-memory history of one bucket split into cycles at each reset.
+   */
+  private getUsageCycles(bucket: QuotaBucketId): UsageCycle[] {
+    const cycleHours = this.getCycleHours(bucket).hours;
+    const cycles: UsageCycle[] = [];
+    let current: UsageCycle | null = null;
+    let previous: QuotaSample | null = null;
+    for (const snapshot of this.history) {
+      const sample = snapshot.buckets[bucket];
+      if (!sample) {
+        continue;
+      }
+      const renewsAt = new Date(sample.renewsAt).getTime();
+      if (!current || (previous !== null && isRenewal(previous, sample))) {
+        current = { samples: [], renewsAt, cycleHours };
+        cycles.push(current);
+      }
+      current.samples.push({ timestamp: snapshot.timestamp, used: getUsedPercent(sample) });
+      current.renewsAt = renewsAt;
+      previous = sample;
+    }
+    return cycles;
+  }
 
-    return {
-      subscription: Math.round(
-        (currentSubPercent - this.sessionTracker.initialSubscriptionQuota) * 100
-      ),
-      toolCalls: Math.round((currentToolPercent - this.sessionTracker.initialToolCallsQuota) * 100),
-      search: Math.round((currentSearchPercent - this.sessionTracker.initialSearchQuota) * 100)
-    };
+  public getSessionUsage(data: QuotaData): Record<QuotaBucketId, number> {
+    const usage: Record<QuotaBucketId, number> = {};
+    for (const [bucket, totals] of Object.entries(this.getSessionTotals(data))) {
+      usage[bucket] = Math.round(totals.percent);
+    }
+    return usage;
+  }
+
+  /**
+   * Usage, requests and resets crossed per bucket since the session started, up to `data`.
+   */
+  public getSessionTotals(data: QuotaData): Record<QuotaBucketId, SessionBucketUsage> {
+    const totals: Record<QuotaBucketId, SessionBucketUsage> = {};
+    const session = this.sessionTracker;
+    for (const bucket of data.buckets) {
+      const counted = session?.counted?.[bucket.id];
+      const initial = session?.initialUsage[bucket.id];
+      if (counted) {
+        const { percent, requests, resets } = countSessionSample(counted, bucket);
+        totals[bucket.id] = { percent, requests, resets };
+      } else if (session && !session.counted && initial !== undefined) {
+        const percent = getUsedPercent(bucket) - initial * 100;
+        totals[bucket.id] = {
+          percent,
+          requests: Math.round((percent / 100) * bucket.limit),
+          resets: 0
+        };
+      } else {
+        totals[bucket.id] = { percent: 0, requests: 0, resets: 0 };
+      }
+    }
+    return totals;
   }
 }
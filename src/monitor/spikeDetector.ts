@@ -0,0 +1,81 @@
+import { SpikeSensitivity, UsageSpike } from '../api/types';
+import { UsagePoint } from './forecasting';
+
+const MS_PER_HOUR = 3600000;
+
+// The spike rate is measured over at least the last interval and at most this long
+const RECENT_WINDOW_MS = 10 * 60000;
+// How far back before the recent window the baseline rate is taken from
+const BASELINE_WINDOW_MS = 2 * MS_PER_HOUR;
+// Less baseline than this is too little to compare against
+const MIN_BASELINE_MS = 15 * 60000;
+// Samples this old say nothing about the current rate, e.g. while refreshing is paused
+const STALE_AFTER_MS = MS_PER_HOUR;
+
+/**
+ * A spike needs to be `factor` times the baseline rate and at least `minShare` times the
+ * rate that would use the whole quota exactly over one cycle, so short cycles with naturally
+ * high rates, like hourly search, are held to the same standard as long ones.
+ */
+const THRESHOLDS: Record<Exclude<SpikeSensitivity, 'off'>, { factor: number; minShare: number }> = {
+  low: { factor: 5, minShare: 4 },
+  medium: { factor: 3, minShare: 2 },
+  high: { factor: 2, minShare: 1 }
+};
+
+/**
+ * Compares the rate over the last few minutes of a cycle's samples with the rate before
+ * them. Meant to catch runaway usage such as an agent stuck in a loop within one or two
+ * refreshes, well before the trend or depletion forecast react.
+ */
+export function detectSpike(
+  samples: UsagePoint[],
+  cycleHours: number,
+  sensitivity: SpikeSensitivity,
+  now: number
+): UsageSpike | null {
+  if (sensitivity === 'off' || samples.length < 2 || cycleHours <= 0) {
+    return null;
+  }
+  const last = samples[samples.length - 1];
+  if (now - last.timestamp > STALE_AFTER_MS) {
+    return null;
+  }
+
+  let start = samples.findIndex((sample) => sample.timestamp >= last.timestamp - RECENT_WINDOW_MS);
+  if (start === samples.length - 1) {
+    start--;
+  }
+  const recent = samples[start];
+  const recentHours = (last.timestamp - recent.timestamp) / MS_PER_HOUR;
+  if (recentHours <= 0) {
+    return null;
+  }
+  const ratePerHour = (last.used - recent.used) / recentHours;
+
+  const baseline = samples.find(
+    (sample) => sample.timestamp >= recent.timestamp - BASELINE_WINDOW_MS
+  );
+  const baselineMs = baseline ? recent.timestamp - baseline.timestamp : 0;
+  const baselinePerHour =
+    baseline && baselineMs >= MIN_BASELINE_MS
+      ? Math.max(0, (recent.used - baseline.used) / (baselineMs / MS_PER_HOUR))
+      : null;
+
+  const { factor, minShare } = THRESHOLDS[sensitivity];
+  if (ratePerHour < (minShare * 100) / cycleHours) {
+    return null;
+  }
+  if (baselinePerHour !== null && ratePerHour < factor * baselinePerHour) {
+    return null;
+  }
+
+  const remaining = 100 - last.used;
+  return {
+    since: recent.timestamp,
+    usedAtStart: recent.used,
+    ratePerHour,
+    baselinePerHour,
+    hoursUntilExhaustion: remaining > 0 ? remaining / ratePerHour : null
+  };
+}
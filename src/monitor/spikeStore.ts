@@ -0,0 +1,133 @@
+import type { Memento } from 'vscode';
+import { QuotaBucketId, UsageSpike } from '../api/types';
+import { DEFAULT_ACCOUNT_ID, storageKeyFor } from '../services/accountManager';
+
+const STORAGE_KEY = 'syntheticQuota.spikes';
+const MS_PER_DAY = 86400000;
+
+/**
+ * One stretch of runaway usage in a bucket, from the first refresh that detected it to the
+ * first one that no longer did.
+ */
+export interface SpikeEvent {
+  bucket: QuotaBucketId;
+  startedAt: number;
+  // Null while the spike is still going on
+  endedAt: number | null;
+  peakRatePerHour: number;
+  baselinePerHour: number | null;
+  // Used percentage when the spike started and when it was last seen
+  usedAtStart: number;
+  usedAtEnd: number;
+  // Acknowledged as intended usage, e.g. a deliberate batch job
+  expected: boolean;
+}
+
+/**
+ * A log of detected spikes, so runaway usage can still be reviewed and marked as expected
+ * on the dashboard after its notification is gone. Spikes that ended before the retention
+ * window are dropped.
+ */
+export class SpikeStore {
+  private events: SpikeEvent[];
+
+  private storageKey: string;
+
+  constructor(
+    private storage: Memento,
+    private retentionDays: number,
+    accountId = DEFAULT_ACCOUNT_ID
+  ) {
+    this.storageKey = storageKeyFor(STORAGE_KEY, accountId);
+    this.events = [];
+    this.reload();
+  }
+
+  public configure(retentionDays: number) {
+    this.retentionDays = retentionDays;
+  }
+
+  /**
+   * Opens, extends or closes the bucket's spike after a refresh. Resolves to the event when
+   * a new spike has started.
+   */
+  public async update(
+    bucket: QuotaBucketId,
+    spike: UsageSpike | null,
+    usedPercent: number,
+    now: number
+  ): Promise<SpikeEvent | null> {
+    this.reload();
+    const open = this.getOpen(bucket);
+    let started: SpikeEvent | null = null;
+    if (spike && open) {
+      open.peakRatePerHour = Math.max(open.peakRatePerHour, spike.ratePerHour);
+      open.usedAtEnd = usedPercent;
+    } else if (spike) {
+      started = {
+        bucket,
+        startedAt: spike.since,
+        endedAt: null,
+        peakRatePerHour: spike.ratePerHour,
+        baselinePerHour: spike.baselinePerHour,
+        usedAtStart: spike.usedAtStart,
+        usedAtEnd: usedPercent,
+        expected: false
+      };
+      this.events.push(started);
+    } else if (open) {
+      open.endedAt = now;
+      open.usedAtEnd = usedPercent;
+    } else {
+      return null;
+    }
+    this.prune(now);
+    await this.save();
+    return started;
+  }
+
+  /**
+   * Marks the bucket's current or latest spike as expected.
+   */
+  public async acknowledge(bucket: QuotaBucketId): Promise<void> {
+    this.reload();
+    const latest = [...this.events].reverse().find((event) => event.bucket === bucket);
+    if (latest && !latest.expected) {
+      latest.expected = true;
+      await this.save();
+    }
+  }
+
+  public getEvents(since = 0): SpikeEvent[] {
+    this.reload();
+    return this.events.filter((event) => (event.endedAt ?? Infinity) >= since);
+  }
+
+  public async clear(): Promise<void> {
+    this.events = [];
+    await this.storage.update(this.storageKey, undefined);
+  }
+
+  /**
+   * Picks up what other windows wrote: the leader records spikes, but any window can mark
+   * one as expected, and the lead moves when the leading window closes.
+   */
+  private reload() {
+    this.events = (this.storage.get<SpikeEvent[]>(this.storageKey) ?? []).map((event) => ({
+      ...event
+    }));
+  }
+
+  private getOpen(bucket: QuotaBucketId): SpikeEvent | undefined {
+    return this.events.find((event) => event.bucket === bucket && event.endedAt === null);
+  }
+
+  private prune(now: number) {
+    const cutoff = now - this.retentionDays * MS_PER_DAY;
+    this.events = this.events.filter((event) => (event.endedAt ?? now) >= cutoff);
+  }
+
+  private async save() {
+    await this.storage.update(this.storageKey, this.events);
+  }
+}
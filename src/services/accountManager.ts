@@ -0,0 +1,69 @@
+import type { Memento } from 'vscode';
+import { AccountProfile } from '../api/types';
+
+export const DEFAULT_ACCOUNT_ID = 'default';
+
+/**
+ * Per-account key for data stored under `base`. The default account keeps the bare key, so
+ * data stored before accounts existed carries over.
+ */
+export function storageKeyFor(base: string, accountId: string): string {
+  return accountId === DEFAULT_ACCOUNT_ID ? base : `${base}.${accountId}`;
+}
+
+const ACCOUNTS_KEY = 'syntheticQuota.accounts';
+const ACTIVE_ACCOUNT_KEY = 'syntheticQuota.activeAccount';
+
+/**
+ * Named account profiles, each backed by its own API key and history. Profiles live in
+ * global state; until one is added explicitly there is a single implicit default account.
+ */
+export class AccountManager {
+  constructor(private storage: Memento) {}
+
+  public getAccounts(): AccountProfile[] {
+    const stored = this.storage.get<AccountProfile[]>(ACCOUNTS_KEY, []);
+    return stored.length > 0 ? stored : [{ id: DEFAULT_ACCOUNT_ID, name: 'Default' }];
+  }
+
+  public getAccount(id: string): AccountProfile | undefined {
+    return this.getAccounts().find((a) => a.id === id);
+  }
+
+  public getActiveAccountId(): string {
+    const accounts = this.getAccounts();
+    const id = this.storage.get<string>(ACTIVE_ACCOUNT_KEY, DEFAULT_ACCOUNT_ID);
+    return accounts.some((a) => a.id === id) ? id : accounts[0].id;
+  }
+
+  public async setActiveAccount(id: string): Promise<void> {
+    await this.storage.update(ACTIVE_ACCOUNT_KEY, id);
+  }
+
+  public async addAccount(name: string): Promise<AccountProfile> {
+    const accounts = this.getAccounts();
+    const base =
+      name
+        .trim()
+        .toLowerCase()
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-|-$/g, '') || 'account';
+
+    let id = base;
+    for (let i = 2; accounts.some((a) => a.id === id); i++) {
+      id = `${base}-${i}`;
+    }
+
+    const profile = { id, name: name.trim() };
+    await this.storage.update(ACCOUNTS_KEY, [...accounts, profile]);
+    return profile;
+  }
+
+  public async removeAccount(id: string): Promise<void> {
+    const remaining = this.getAccounts().filter((a) => a.id !== id);
+    await this.storage.update(ACCOUNTS_KEY, remaining.length > 0 ? remaining : undefined);
+    if (this.storage.get<string>(ACTIVE_ACCOUNT_KEY) === id) {
+      await this.storage.update(ACTIVE_ACCOUNT_KEY, undefined);
+    }
+  }
+}
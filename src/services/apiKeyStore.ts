@@ -0,0 +1,59 @@
+import * as vscode from 'vscode';
+import { DEFAULT_ACCOUNT_ID, storageKeyFor } from './accountManager';
+
+const SECRET_KEY = 'syntheticQuota.apiKey';
+const CONFIG_NAMESPACE = 'syntheticQuota';
+
+/**
+ * Keeps Synthetic API keys in VS Code's SecretStorage (the OS keychain) instead of
+ * plain-text settings, one entry per account.
+ */
+export class ApiKeyStore {
+  constructor(private secrets: vscode.SecretStorage) {}
+
+  private secretKey(accountId: string): string {
+    return storageKeyFor(SECRET_KEY, accountId);
+  }
+
+  public onDidChange(listener: (accountId: string) => void): vscode.Disposable {
+    return this.secrets.onDidChange((e) => {
+      if (e.key === SECRET_KEY) {
+        listener(DEFAULT_ACCOUNT_ID);
+      } else if (e.key.startsWith(`${SECRET_KEY}.`)) {
+        listener(e.key.slice(SECRET_KEY.length + 1));
+      }
+    });
+  }
+
+  public async get(accountId: string): Promise<string | undefined> {
+    const key = await this.secrets.get(this.secretKey(accountId));
+    return key?.trim() || undefined;
+  }
+
+  public async set(accountId: string, apiKey: string): Promise<void> {
+    await this.secrets.store(this.secretKey(accountId), apiKey.trim());
+  }
+
+  public async clear(accountId: string): Promise<void> {
+    await this.secrets.delete(this.secretKey(accountId));
+  }
+
+  /**
+   * Moves a key left in the deprecated `syntheticQuota.apiKey` setting into the default
+   * account's secret storage and removes it from settings. A key already in secret storage
+   * takes precedence. Returns true when a plain-text key was found.
+   */
+  public async migrateFromSettings(): Promise<boolean> {
+    const config = vscode.workspace.getConfiguration(CONFIG_NAMESPACE);
+    const plainKey = config.get<string>('apiKey', '').trim();
+    if (!plainKey) {
+      return false;
+    }
+
+    if (!(await this.get(DEFAULT_ACCOUNT_ID))) {
+      await this.set(DEFAULT_ACCOUNT_ID, plainKey);
+    }
+    await config.update('apiKey', undefined, vscode.ConfigurationTarget.Global);
+    return true;
+  }
+}
@@ -0,0 +1,28 @@
+import type { Memento } from 'vscode';
+
+/**
+ * A `Memento` that lives only as long as the object, for stores whose data must not be
+ * persisted, like a simulation's history.
+ */
+export class MemoryStorage implements Memento {
+  private values = new Map<string, unknown>();
+
+  public keys(): readonly string[] {
+    return [...this.values.keys()];
+  }
+
+  public get<T>(key: string): T | undefined;
+  public get<T>(key: string, defaultValue: T): T;
+  public get<T>(key: string, defaultValue?: T): T | undefined {
+    return this.values.has(key) ? (this.values.get(key) as T) : defaultValue;
+  }
+
+  public async update(key: string, value: unknown): Promise<void> {
+    if (value === undefined) {
+      this.values.delete(key);
+    } else {
+      // Like VS Code's Memento, keep a serialized copy rather than the caller's live object
+      this.values.set(key, JSON.parse(JSON.stringify(value)));
+    }
+  }
+}
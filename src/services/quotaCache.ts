@@ -0,0 +1,42 @@
+import type { Memento } from 'vscode';
+import { QuotaData } from '../api/types';
+import { DEFAULT_ACCOUNT_ID, storageKeyFor } from './accountManager';
+
+const STORAGE_KEY = 'syntheticQuota.lastQuota';
+
+export interface CachedQuota {
+  data: QuotaData;
+  // When the data was fetched
+  timestamp: number;
+}
+
+/**
+ * The last successful fetch of an account, kept in global state so a failed refresh or a
+ * fresh window can still show it while marked as stale.
+ */
+export class QuotaCache {
+  private storageKey: string;
+
+  constructor(
+    private storage: Memento,
+    accountId = DEFAULT_ACCOUNT_ID
+  ) {
+    this.storageKey = storageKeyFor(STORAGE_KEY, accountId);
+  }
+
+  /**
+   * The cached fetch, unless it is older than `maxAgeMs`.
+   */
+  public get(maxAgeMs: number, now = Date.now()): CachedQuota | undefined {
+    const cached = this.storage.get<CachedQuota>(this.storageKey);
+    return cached && now - cached.timestamp <= maxAgeMs ? cached : undefined;
+  }
+
+  public async set(data: QuotaData, timestamp: number): Promise<void> {
+    await this.storage.update(this.storageKey, { data, timestamp });
+  }
+
+  public async clear(): Promise<void> {
+    await this.storage.update(this.storageKey, undefined);
+  }
+}
@@ -1,17 +1,108 @@
-import { QuotaClient } from '../api/client';
+import { QuotaClient, QuotaProvider } from '../api/client';
 import { AnalyticsEngine } from '../monitor/sessionTracker';
-import { QuotaData, QuotaAnalytics } from '../api/types';
+import { HistoryStore, createSnapshot } from '../monitor/historyStore';
+import { SessionSummary, summarizeSession } from '../monitor/sessionSummary';
+import {
+  QuotaData,
+  BucketAnalytics,
+  HistoryRetentionOptions,
+  QuotaBucketId,
+  ResetEvent,
+  QuotaSnapshot,
+  ClientOptions,
+  SessionTracker,
+  PacingOptions,
+  ForecastModelSetting,
+  SpikeSensitivity
+} from '../api/types';
 
 export class QuotaService {
-  private client: QuotaClient | null = null;
+  private client: QuotaProvider | null = null;
   private analytics: AnalyticsEngine;
 
-  constructor() {
+  /**
+   * `clock` dates snapshots, sessions and forecasts; a simulation passes its playback clock.
+   */
+  constructor(
+    private history: HistoryStore,
+    private clock: () => number = Date.now
+  ) {
     this.analytics = new AnalyticsEngine();
+    this.analytics.loadHistory(history.getSnapshots());
   }
 
-  public setApiKey(apiKey: string) {
-    this.client = new QuotaClient(apiKey);
+  public setApiKey(apiKey: string, options: ClientOptions) {
+    this.client = new QuotaClient(apiKey, options);
+  }
+
+  /**
+   * Fetches from `provider` instead of the API, e.g. a simulation.
+   */
+  public setProvider(provider: QuotaProvider) {
+    this.client = provider;
+  }
+
+  public now(): number {
+    return this.clock();
+  }
+
+  public clearApiKey() {
+    this.client = null;
+  }
+
+  public hasApiKey(): boolean {
+    return this.client !== null;
+  }
+
+  public async clearHistory(): Promise<void> {
+    this.analytics.loadHistory([]);
+    await this.history.clear();
+  }
+
+  public configureHistory(options: HistoryRetentionOptions) {
+    this.history.configure(options);
+  }
+
+  public setCycleOverrides(overrides: Record<QuotaBucketId, number>) {
+    this.analytics.setCycleOverrides(overrides);
+  }
+
+  public setPacing(options: PacingOptions) {
+    this.analytics.setPacing(options);
+  }
+
+  public setForecastModel(model: ForecastModelSetting) {
+    this.analytics.setForecastModel(model);
+  }
+
+  public setSpikeSensitivity(sensitivity: SpikeSensitivity) {
+    this.analytics.setSpikeSensitivity(sensitivity);
+  }
+
+  public onReset(listener: (event: ResetEvent) => void) {
+    return this.analytics.onReset(listener);
+  }
+
+  public getResets(bucket?: QuotaBucketId): ResetEvent[] {
+    return this.analytics.getResets(bucket);
+  }
+
+  public getHistory(since = 0): QuotaSnapshot[] {
+    return this.history.getSnapshots(since);
+  }
+
+  /**
+   * Merges imported snapshots into the stored history and replays it so learned cycles and
+   * burn rates include the imported data.
+   */
+  public async importHistory(snapshots: QuotaSnapshot[]): Promise<number> {
+    const added = await this.history.merge(snapshots);
+    this.analytics.loadHistory(this.history.getSnapshots());
+    return added;
+  }
+
+  public getSessionStartTime(): number | null {
+    return this.analytics.getSessionStartTime();
   }
 
   public async refreshQuota(): Promise<QuotaData> {
@@ -19,19 +110,76 @@ export class QuotaService {
       throw new Error('API Key not set');
     }
     const data = await this.client.fetchQuotaData();
-    this.analytics.updateHistory(data);
+    const snapshot = createSnapshot(data, this.clock());
+    this.analytics.updateHistory(snapshot);
+    await this.history.record(snapshot);
     return data;
   }
 
+  /**
+   * Takes over data fetched by another window. Its snapshot was already stored there, so it
+   * only feeds the in-memory history and analytics.
+   */
+  public async applySharedQuota(data: QuotaData, timestamp: number): Promise<void> {
+    const snapshot = createSnapshot(data, timestamp);
+    this.analytics.updateHistory(snapshot);
+    await this.history.record(snapshot, false);
+  }
+
   public initializeSession(data: QuotaData, trackSession: boolean) {
-    this.analytics.initialize(data, trackSession);
+    this.analytics.initialize(data, trackSession, this.clock());
   }
 
-  public getAnalytics(data: QuotaData): QuotaAnalytics {
-    return this.analytics.getAnalytics(data);
+  /**
+   * Starts a session, optionally named, with the current usage as its baseline.
+   */
+  public startSession(data: QuotaData, name: string | null) {
+    this.analytics.startSession(data, name, this.clock());
+  }
+
+  /**
+   * Keeps the running session and its name but counts usage from now on.
+   */
+  public resetSessionBaseline(data: QuotaData) {
+    this.analytics.startSession(data, this.analytics.getSession()?.name ?? null, this.clock());
+  }
+
+  /**
+   * The running session summarized up to now, or null when there is none.
+   */
+  public getSessionSummary(): SessionSummary | null {
+    const session = this.analytics.getSession();
+    return session
+      ? summarizeSession(session, this.history.getSnapshots(session.sessionStartTime), this.clock())
+      : null;
+  }
+
+  /**
+   * Stops the running session and returns its summary.
+   */
+  public endSession(): SessionSummary | null {
+    const summary = this.getSessionSummary();
+    this.analytics.setSession(null);
+    return summary;
+  }
+
+  public getSession(): SessionTracker | null {
+    return this.analytics.getSession();
+  }
+
+  public setSession(session: SessionTracker | null) {
+    this.analytics.setSession(session);
+  }
+
+  public getAnalytics(data: QuotaData): BucketAnalytics {
+    return this.analytics.getAnalytics(data, this.clock());
   }
 
   public getSessionUsage(data: QuotaData) {
     return this.analytics.getSessionUsage(data);
   }
+
+  public getSessionTotals(data: QuotaData) {
+    return this.analytics.getSessionTotals(data);
+  }
 }
@@ -0,0 +1,420 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomBytes } from 'crypto';
+import { QuotaData, SessionTracker } from '../api/types';
+import { WindowActivity } from '../monitor/projectAttribution';
+
+const LOCK_FILE = 'leader.json';
+const PAUSED_FILE = 'paused';
+const QUOTA_FILE_PREFIX = 'quota-';
+const ACTIVITY_FILE_PREFIX = 'activity-';
+// Activity of windows that have been closed this long no longer matters for attribution
+const ACTIVITY_RETENTION_MS = 86400000;
+
+const DEFAULT_HEARTBEAT_MS = 5000;
+// A leader that has not renewed its lock for this long is presumed gone
+const DEFAULT_STALE_MS = 20000;
+
+interface LeaderLock {
+  windowId: string;
+  pid: number;
+  heartbeat: number;
+}
+
+/**
+ * The latest quota data of one account, as fetched by whichever window published it.
+ */
+export interface SharedQuota {
+  accountId: string;
+  data: QuotaData;
+  timestamp: number;
+  // Session baseline of the window that started first, so all windows count alike
+  session: SessionTracker | null;
+}
+
+export interface WindowCoordinatorOptions {
+  heartbeatMs: number;
+  staleMs: number;
+  // Process liveness check; a leader whose process is gone is replaced without waiting
+  isProcessAlive: (pid: number) => boolean;
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Lets the windows of one VS Code instance share a single poller. Windows elect a leader
+ * through a lock file in the extension's global storage; the leader renews it on every
+ * heartbeat and the other windows take over once it stops. Fetched quota data and the
+ * paused flag are shared through files in the same directory.
+ */
+export class WindowCoordinator {
+  public readonly windowId = randomBytes(8).toString('hex');
+
+  private options: WindowCoordinatorOptions;
+  private leader = false;
+  private firstWindow = true;
+  private paused = false;
+  private timer?: NodeJS.Timeout;
+  private started?: Promise<void>;
+  private polling = false;
+  private seen = new Map<string, number>();
+  private leadershipListeners: Array<(leader: boolean) => void> = [];
+  private quotaListeners: Array<(shared: SharedQuota) => void> = [];
+  private pausedListeners: Array<(paused: boolean) => void> = [];
+
+  constructor(
+    private directory: string,
+    options: Partial<WindowCoordinatorOptions> = {}
+  ) {
+    this.options = {
+      heartbeatMs: DEFAULT_HEARTBEAT_MS,
+      staleMs: DEFAULT_STALE_MS,
+      isProcessAlive,
+      ...options
+    };
+  }
+
+  /**
+   * Joins the election and starts the heartbeat. Resolves once this window knows whether
+   * it leads, so the caller can decide whether to fetch. Calling it again only waits for
+   * the first call, so re-initializing never adds a second heartbeat.
+   */
+  public start(): Promise<void> {
+    this.started ??= this.join();
+    return this.started;
+  }
+
+  public isLeader(): boolean {
+    return this.leader;
+  }
+
+  /**
+   * Whether no other window was running when this one started, i.e. shared data such as the
+   * session baseline is left over from an earlier run.
+   */
+  public isFirstWindow(): boolean {
+    return this.firstWindow;
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public onDidChangeLeadership(listener: (leader: boolean) => void) {
+    return this.addListener(this.leadershipListeners, listener);
+  }
+
+  public onDidReceiveQuota(listener: (shared: SharedQuota) => void) {
+    return this.addListener(this.quotaListeners, listener);
+  }
+
+  public onDidChangePaused(listener: (paused: boolean) => void) {
+    return this.addListener(this.pausedListeners, listener);
+  }
+
+  /**
+   * Renews or claims leadership and picks up data and pause changes from other windows.
+   * Runs on every heartbeat.
+   */
+  public async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      await this.updateLeadership();
+      await this.readPaused();
+      await this.readQuotas();
+    } catch {
+      // Storage briefly unavailable; the next heartbeat tries again
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  public async publish(shared: SharedQuota): Promise<void> {
+    this.seen.set(shared.accountId, shared.timestamp);
+    try {
+      await this.writeAtomic(this.quotaFile(shared.accountId), JSON.stringify(shared));
+    } catch {
+      // Other windows keep their last data until the next successful publish
+    }
+  }
+
+  public async read(accountId: string): Promise<SharedQuota | undefined> {
+    return this.readJson<SharedQuota>(this.quotaFile(accountId));
+  }
+
+  public async forget(accountId: string): Promise<void> {
+    this.seen.delete(accountId);
+    await fs.promises.rm(this.quotaFile(accountId), { force: true });
+  }
+
+  /**
+   * Shares this window's focused time per project for usage attribution.
+   */
+  public async reportActivity(activity: WindowActivity): Promise<void> {
+    try {
+      await this.writeAtomic(this.activityFile(activity.windowId), JSON.stringify(activity));
+    } catch {
+      // The leader credits the usage to the other windows instead
+    }
+  }
+
+  /**
+   * The activity of every window, including ones closed recently so the time they were
+   * focused before closing still counts. Older files are removed.
+   */
+  public async readActivities(): Promise<WindowActivity[]> {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch {
+      return [];
+    }
+    const activities: WindowActivity[] = [];
+    for (const file of files) {
+      if (!file.startsWith(ACTIVITY_FILE_PREFIX) || !file.endsWith('.json')) {
+        continue;
+      }
+      const fullPath = path.join(this.directory, file);
+      try {
+        const { mtimeMs } = await fs.promises.stat(fullPath);
+        if (Date.now() - mtimeMs > ACTIVITY_RETENTION_MS) {
+          await fs.promises.rm(fullPath, { force: true });
+          continue;
+        }
+      } catch {
+        continue;
+      }
+      const activity = await this.readJson<WindowActivity>(fullPath);
+      if (activity) {
+        activities.push(activity);
+      }
+    }
+    return activities;
+  }
+
+  public async setPaused(paused: boolean): Promise<void> {
+    this.paused = paused;
+    const file = path.join(this.directory, PAUSED_FILE);
+    try {
+      if (paused) {
+        await fs.promises.writeFile(file, '');
+      } else {
+        await fs.promises.rm(file, { force: true });
+      }
+    } catch {
+      // Only this window is paused or resumed until the storage is back
+    }
+  }
+
+  /**
+   * Stops the heartbeat and hands leadership back so another window can take over at its
+   * next heartbeat instead of waiting for the lock to go stale. Synchronous, because the
+   * extension host may exit right after deactivation.
+   */
+  public dispose() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    if (!this.leader) {
+      return;
+    }
+    this.leader = false;
+    try {
+      const lock = JSON.parse(fs.readFileSync(this.lockFile(), 'utf8')) as LeaderLock;
+      if (lock.windowId === this.windowId) {
+        fs.rmSync(this.lockFile(), { force: true });
+      }
+    } catch {
+      // Already gone; nothing to hand back
+    }
+  }
+
+  private async join(): Promise<void> {
+    try {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+    } catch {
+      // Without shared storage every window polls on its own
+      this.leader = true;
+      return;
+    }
+    this.firstWindow = !this.isLive(await this.readLock());
+    this.paused = await this.exists(PAUSED_FILE);
+    await this.poll();
+    this.timer = setInterval(() => this.poll(), this.options.heartbeatMs);
+  }
+
+  private async updateLeadership() {
+    const lock = await this.readLock();
+    let leader: boolean;
+    if (lock?.windowId === this.windowId) {
+      leader = true;
+      await this.writeAtomic(this.lockFile(), JSON.stringify(this.createLock()));
+    } else if (this.isLive(lock)) {
+      leader = false;
+    } else {
+      leader = await this.claim(lock);
+    }
+
+    if (leader !== this.leader) {
+      this.leader = leader;
+      this.leadershipListeners.forEach((listener) => listener(leader));
+    }
+  }
+
+  /**
+   * Replaces a missing or stale lock. Creating the file exclusively means only one of
+   * several windows racing for it wins.
+   */
+  private async claim(stale: LeaderLock | undefined): Promise<boolean> {
+    if (stale && !(await this.removeStale(stale))) {
+      return false;
+    }
+    try {
+      await fs.promises.writeFile(this.lockFile(), JSON.stringify(this.createLock()), {
+        flag: 'wx'
+      });
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Moves the stale lock out of the way. A rename only succeeds for one window, and the
+   * moved file tells whether it was still the stale lock: a window that read it before
+   * another one replaced it would otherwise remove the fresh lock. That one is put back.
+   */
+  private async removeStale(stale: LeaderLock): Promise<boolean> {
+    const moved = `${this.lockFile()}.${this.windowId}.stale`;
+    try {
+      await fs.promises.rename(this.lockFile(), moved);
+    } catch {
+      // Already moved by another window
+      return false;
+    }
+    const lock = await this.readJson<LeaderLock>(moved);
+    await fs.promises.rm(moved, { force: true });
+    if (lock?.windowId === stale.windowId && lock.heartbeat === stale.heartbeat) {
+      return true;
+    }
+    if (lock) {
+      try {
+        await fs.promises.writeFile(this.lockFile(), JSON.stringify(lock), { flag: 'wx' });
+      } catch {
+        // Yet another window claimed it meanwhile; the displaced one steps down at its next
+        // heartbeat
+      }
+    }
+    return false;
+  }
+
+  private isLive(lock: LeaderLock | undefined): boolean {
+    return (
+      !!lock &&
+      Date.now() - lock.heartbeat < this.options.staleMs &&
+      this.options.isProcessAlive(lock.pid)
+    );
+  }
+
+  private async readPaused() {
+    const paused = await this.exists(PAUSED_FILE);
+    if (paused !== this.paused) {
+      this.paused = paused;
+      this.pausedListeners.forEach((listener) => listener(paused));
+    }
+  }
+
+  private async readQuotas() {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch {
+      return;
+    }
+    for (const file of files) {
+      if (!file.startsWith(QUOTA_FILE_PREFIX) || !file.endsWith('.json')) {
+        continue;
+      }
+      const shared = await this.readJson<SharedQuota>(path.join(this.directory, file));
+      if (!shared || shared.timestamp <= (this.seen.get(shared.accountId) ?? 0)) {
+        continue;
+      }
+      this.seen.set(shared.accountId, shared.timestamp);
+      this.quotaListeners.forEach((listener) => listener(shared));
+    }
+  }
+
+  private createLock(): LeaderLock {
+    return { windowId: this.windowId, pid: process.pid, heartbeat: Date.now() };
+  }
+
+  private readLock(): Promise<LeaderLock | undefined> {
+    return this.readJson<LeaderLock>(this.lockFile());
+  }
+
+  private async readJson<T>(file: string): Promise<T | undefined> {
+    try {
+      return JSON.parse(await fs.promises.readFile(file, 'utf8')) as T;
+    } catch {
+      // Missing, or removed by a window that is shutting down
+      return undefined;
+    }
+  }
+
+  /**
+   * Writes through a temporary file so other windows never read a half-written file.
+   */
+  private async writeAtomic(file: string, content: string) {
+    const temp = `${file}.${this.windowId}.tmp`;
+    await fs.promises.writeFile(temp, content);
+    await fs.promises.rename(temp, file);
+  }
+
+  private async exists(name: string): Promise<boolean> {
+    try {
+      await fs.promises.access(path.join(this.directory, name));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private lockFile(): string {
+    return path.join(this.directory, LOCK_FILE);
+  }
+
+  private activityFile(windowId: string): string {
+    return path.join(this.directory, `${ACTIVITY_FILE_PREFIX}${windowId}.json`);
+  }
+
+  private quotaFile(accountId: string): string {
+    return path.join(this.directory, `${QUOTA_FILE_PREFIX}${accountId}.json`);
+  }
+
+  private addListener<T>(listeners: Array<(value: T) => void>, listener: (value: T) => void) {
+    listeners.push(listener);
+    return {
+      dispose: () => {
+        const index = listeners.indexOf(listener);
+        if (index >= 0) {
+          listeners.splice(index, 1);
+        }
+      }
+    };
+  }
+}
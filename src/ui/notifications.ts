@@ -0,0 +1,165 @@
+import * as vscode from 'vscode';
+import { QuotaData, BucketAnalytics, QuotaBucketId, ResetEvent } from '../api/types';
+import { AlertPolicy, AlertOptions, AlertState, QuotaAlert } from '../monitor/alertPolicy';
+
+const STATE_KEY = 'syntheticQuota.alerts';
+
+const SNOOZE_ACTION = 'Snooze Until Reset';
+const MUTE_ACTION = "Don't Show Again This Cycle";
+const DETAILS_ACTION = 'Open Dashboard';
+const EXPECTED_ACTION = 'This Is Expected';
+
+/**
+ * Shows quota notifications for every account. Alert decisions are made by one
+ * `AlertPolicy` per account whose state is kept in global state across reloads.
+ */
+export class NotificationManager {
+  private policies = new Map<string, AlertPolicy>();
+
+  constructor(
+    private storage: vscode.Memento,
+    private options: AlertOptions,
+    private detailsCommand: string,
+    // Invoked with the account and bucket id when a spike is acknowledged as expected
+    private acknowledgeSpikeCommand: string
+  ) {}
+
+  public configure(options: AlertOptions) {
+    this.options = options;
+    this.policies.forEach((policy) => policy.configure(options));
+  }
+
+  /**
+   * Raises the alerts for a refresh. `resets` are the resets the refresh's analytics
+   * detected; they start each bucket's new cycle before the usage alerts are evaluated.
+   */
+  public async process(
+    accountId: string,
+    data: QuotaData,
+    analytics: BucketAnalytics,
+    resets: ResetEvent[],
+    accountLabel?: string
+  ): Promise<void> {
+    const policy = this.getPolicy(accountId);
+    const alerts: QuotaAlert[] = [];
+    for (const event of resets) {
+      const bucket = data.buckets.find((b) => b.id === event.bucket);
+      const alert = bucket ? policy.reset(bucket) : null;
+      if (alert) {
+        alerts.push(alert);
+      }
+    }
+    alerts.push(...policy.evaluate(data, analytics));
+    await this.save();
+    alerts.forEach((alert) => this.show(accountId, policy, alert, accountLabel));
+  }
+
+  /**
+   * Stops spike alerts for the bucket until its quota renews.
+   */
+  public async muteSpikes(accountId: string, bucket: QuotaBucketId): Promise<void> {
+    this.getPolicy(accountId).muteSpikes(bucket);
+    await this.save();
+  }
+
+  public async forget(accountId: string): Promise<void> {
+    this.policies.delete(accountId);
+    const states = this.storage.get<Record<string, AlertState>>(STATE_KEY, {});
+    delete states[accountId];
+    await this.storage.update(STATE_KEY, states);
+  }
+
+  private getPolicy(accountId: string): AlertPolicy {
+    let policy = this.policies.get(accountId);
+    if (!policy) {
+      const states = this.storage.get<Record<string, AlertState>>(STATE_KEY, {});
+      policy = new AlertPolicy(this.options, states[accountId] ?? {});
+      this.policies.set(accountId, policy);
+    }
+    return policy;
+  }
+
+  private async save(): Promise<void> {
+    const states: Record<string, AlertState> = {};
+    this.policies.forEach((policy, accountId) => (states[accountId] = policy.getState()));
+    await this.storage.update(STATE_KEY, {
+      ...this.storage.get<Record<string, AlertState>>(STATE_KEY, {}),
+      ...states
+    });
+  }
+
+  private async show(
+    accountId: string,
+    policy: AlertPolicy,
+    alert: QuotaAlert,
+    accountLabel?: string
+  ) {
+    const prefix = `${alert.bucket.label}${accountLabel ? ` (${accountLabel})` : ''}`;
+
+    if (alert.kind === 'reset') {
+      const choice = await vscode.window.showInformationMessage(
+        `👽 ${prefix} quota has reset. Resets at ${new Date(alert.bucket.renewsAt).toLocaleTimeString()} next.`,
+        DETAILS_ACTION
+      );
+      if (choice === DETAILS_ACTION) {
+        vscode.commands.executeCommand(this.detailsCommand);
+      }
+      return;
+    }
+
+    if (alert.kind === 'spike') {
+      await this.showSpike(accountId, alert, prefix);
+      return;
+    }
+
+    const message =
+      alert.kind === 'threshold'
+        ? `👽 ${prefix}: only ${alert.remainingPercent.toFixed(0)}% of quota left.`
+        : `👽 ${prefix}: quota is predicted to run out in ~${this.formatHours(alert.hoursUntilDepletion)}, before it resets.`;
+    const choice = await vscode.window.showWarningMessage(
+      message,
+      SNOOZE_ACTION,
+      MUTE_ACTION,
+      DETAILS_ACTION
+    );
+
+    if (choice === SNOOZE_ACTION) {
+      policy.snooze(alert.bucket.id);
+      await this.save();
+    } else if (choice === MUTE_ACTION) {
+      policy.mute(alert);
+      await this.save();
+    } else if (choice === DETAILS_ACTION) {
+      vscode.commands.executeCommand(this.detailsCommand);
+    }
+  }
+
+  private async showSpike(
+    accountId: string,
+    alert: Extract<QuotaAlert, { kind: 'spike' }>,
+    prefix: string
+  ) {
+    const { spike } = alert;
+    const baseline =
+      spike.baselinePerHour !== null ? ` (usually ${spike.baselinePerHour.toFixed(1)}%/h)` : '';
+    const exhaustion =
+      spike.hoursUntilExhaustion !== null
+        ? ` At this rate it runs out in ~${this.formatHours(spike.hoursUntilExhaustion)}.`
+        : '';
+    const choice = await vscode.window.showWarningMessage(
+      `🚨 ${prefix}: usage is spiking at ${spike.ratePerHour.toFixed(0)}%/h${baseline}.${exhaustion}`,
+      EXPECTED_ACTION,
+      DETAILS_ACTION
+    );
+
+    if (choice === EXPECTED_ACTION) {
+      vscode.commands.executeCommand(this.acknowledgeSpikeCommand, accountId, alert.bucket.id);
+    } else if (choice === DETAILS_ACTION) {
+      vscode.commands.executeCommand(this.detailsCommand, alert.bucket.id);
+    }
+  }
+
+  private formatHours(hours: number): string {
+    return hours < 1 ? `${Math.max(1, Math.round(hours * 60))}m` : `${hours.toFixed(1)}h`;
+  }
+}
@@ -1,54 +1,255 @@
 import * as vscode from 'vscode';
 import {
   QuotaData,
+  QuotaBucket,
   QuotaAnalytics,
+  BucketAnalytics,
   StatusBarDisplayMode,
+  StatusBarLayout,
   TimeDisplayMode,
   QuotaDisplayConfig,
-  CompactAnalyticsMode
+  CompactAnalyticsMode,
+  BucketPace
 } from '../api/types';
+import { QuotaApiError, RateLimitError, ServerError } from '../api/errors';
+import { getBucket, getShortLabel, getUsedPercent } from '../api/buckets';
+import {
+  parseTemplate,
+  renderTemplate,
+  ParsedTemplate,
+  TemplateContext,
+  TemplateError,
+  TemplateField,
+  TemplateValue
+} from './statusBarTemplate';
+import { ProjectUsageSummary } from '../monitor/projectUsageStore';
+import { FORECASTERS } from '../monitor/forecasting';
 
+const PROJECTS_IN_TOOLTIP = 3;
 const MS_PER_MINUTE = 60000;
 const MS_PER_HOUR = 3600000;
 
+const DEFAULT_LAYOUT: StatusBarLayout = {
+  perBucket: false,
+  buckets: [],
+  alignment: 'right',
+  priority: 100,
+  hideBelow: 0
+};
+
 export class StatusBarManager {
   private statusBarItem: vscode.StatusBarItem;
+  // Per-bucket items in display order, keyed by bucket id
+  private bucketItems = new Map<string, vscode.StatusBarItem>();
+  private bucketItemsShown = false;
+  private paused = false;
+  private stale: { since: number; error: Error | null } | null = null;
+  private simulation: { label: string; now: () => number } | null = null;
+  private projects: ProjectUsageSummary[] = [];
+  private accountLabel?: string;
+  private template?: { source: string; parsed: ParsedTemplate };
+  private reportedTemplateError?: string;
 
-  constructor(command: string) {
-    this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  constructor(
+    private command: string,
+    private setupCommand: string,
+    private retryCommand: string,
+    private resumeCommand: string,
+    private stopSimulationCommand: string,
+    private layout: StatusBarLayout = DEFAULT_LAYOUT
+  ) {
+    this.statusBarItem = this.createItem(layout.priority);
     this.statusBarItem.command = command;
   }
 
-  public get item() {
-    return this.statusBarItem;
+  /**
+   * Applies new layout settings. Alignment and priority cannot be changed on an existing
+   * item, so all items are recreated; the caller re-renders afterwards.
+   */
+  public configureLayout(layout: StatusBarLayout) {
+    const moved =
+      layout.alignment !== this.layout.alignment || layout.priority !== this.layout.priority;
+    this.layout = layout;
+    this.disposeBucketItems();
+    if (moved) {
+      this.statusBarItem.dispose();
+      this.statusBarItem = this.createItem(layout.priority);
+      this.statusBarItem.command = this.command;
+    }
+  }
+
+  public setPaused(paused: boolean) {
+    this.paused = paused;
+  }
+
+  /**
+   * Marks the next updates as showing data from `since`, e.g. after a failed refresh.
+   */
+  public setStale(stale: { since: number; error: Error | null } | null) {
+    this.stale = stale;
+  }
+
+  /**
+   * Marks the next updates as simulated; countdowns follow the simulation's `now`.
+   */
+  public setSimulation(simulation: { label: string; now: () => number } | null) {
+    this.simulation = simulation;
+  }
+
+  public setProjects(projects: ProjectUsageSummary[]) {
+    this.projects = projects;
   }
 
   public showLoading() {
+    // Per-bucket items keep their last values instead of collapsing into a spinner
+    if (this.bucketItemsShown) {
+      return;
+    }
     this.statusBarItem.text = '$(sync~spin) Synthetic...';
     this.statusBarItem.tooltip = 'Fetching quota data...';
     this.statusBarItem.color = undefined;
+    this.statusBarItem.command = this.command;
     this.statusBarItem.show();
   }
 
   public showSetup() {
+    this.hideBucketItems();
     this.statusBarItem.text = '$(warning) Synthetic: Set API Key';
     this.statusBarItem.tooltip = 'Click to set up your Synthetic API key';
     this.statusBarItem.color = '#FFA500';
+    this.statusBarItem.backgroundColor = undefined;
+    this.statusBarItem.command = this.setupCommand;
     this.statusBarItem.show();
   }
 
-  public showError(error: string) {
-    this.statusBarItem.text = '$(error) Synthetic';
-    this.statusBarItem.tooltip = `Error: ${error}\n\nClick to retry`;
-    this.statusBarItem.color = '#FF4444';
+  public showError(error: Error) {
+    const display = this.getErrorDisplay(error);
+    this.hideBucketItems();
+    this.statusBarItem.text = display.text;
+    this.statusBarItem.tooltip = `${display.description}\n\nError: ${error.message}\n\n${display.action}`;
+    this.statusBarItem.color = display.color;
+    this.statusBarItem.backgroundColor = undefined;
+    this.statusBarItem.command = display.command;
     this.statusBarItem.show();
   }
 
+  /**
+   * Each kind of API failure gets its own look and the click action most likely to fix it.
+   */
+  private getErrorDisplay(error: Error): {
+    text: string;
+    description: string;
+    action: string;
+    color: string;
+    command: string | vscode.Command;
+  } {
+    const retry = {
+      color: '#FF4444',
+      action: 'Click to retry',
+      command: this.retryCommand
+    };
+    if (!(error instanceof QuotaApiError)) {
+      return { ...retry, text: '$(error) Synthetic', description: 'Unable to fetch quota data.' };
+    }
+
+    switch (error.kind) {
+      case 'auth':
+        return {
+          text: '$(key) Synthetic: Invalid Key',
+          description: 'The Synthetic API rejected your API key.',
+          action: 'Click to enter a new API key',
+          color: '#FF4444',
+          command: this.setupCommand
+        };
+      case 'rateLimit': {
+        const retryAfter = (error as RateLimitError).retryAfterMs;
+        const retryAt =
+          retryAfter !== undefined
+            ? ` Retry allowed at ${new Date(Date.now() + retryAfter).toLocaleTimeString()}.`
+            : '';
+        return {
+          ...retry,
+          text: '$(watch) Synthetic: Rate Limited',
+          description: `Too many requests.${retryAt}`,
+          color: '#FFA500'
+        };
+      }
+      case 'network':
+        return {
+          ...retry,
+          text: '$(debug-disconnect) Synthetic: Offline',
+          description:
+            'Could not reach the Synthetic API. Check your connection and proxy settings.'
+        };
+      case 'timeout':
+        return {
+          ...retry,
+          text: '$(clock) Synthetic: Timeout',
+          description: 'The Synthetic API did not respond in time.',
+          color: '#FFA500'
+        };
+      case 'server':
+        return {
+          ...retry,
+          text: '$(server) Synthetic: Server Error',
+          description: `The Synthetic API returned HTTP ${(error as ServerError).status}.`
+        };
+      case 'schema':
+        return {
+          text: '$(bug) Synthetic: Unexpected Response',
+          description:
+            'The API response has an unexpected format. A newer version of the extension may be needed.',
+          action: 'Click to check for extension updates',
+          color: '#FF4444',
+          command: {
+            title: 'Check for Updates',
+            command: 'workbench.extensions.search',
+            arguments: ['ChrisUFO.cosmic-quota']
+          }
+        };
+    }
+  }
+
   public update(
     data: QuotaData,
     mode: StatusBarDisplayMode,
     sessionUsage: Record<string, number>,
-    analytics: QuotaAnalytics,
+    analytics: BucketAnalytics,
+    config: {
+      warningThreshold: number;
+      criticalThreshold: number;
+      showCountdown: boolean;
+      timeMode: TimeDisplayMode;
+      showAnalytics: boolean;
+      analyticsMode: CompactAnalyticsMode;
+      format: string;
+    },
+    accountLabel?: string
+  ) {
+    this.statusBarItem.command = this.command;
+    this.accountLabel = accountLabel;
+
+    if (this.layout.perBucket) {
+      this.updatePerBucket(data, sessionUsage, analytics, config);
+    } else {
+      this.hideBucketItems();
+      this.updateSingle(data, mode, sessionUsage, analytics, config);
+    }
+    if (this.stale) {
+      this.showStale(this.stale.since, this.stale.error);
+    }
+    if (this.simulation) {
+      this.showSimulation(this.simulation.label);
+    } else if (this.paused) {
+      this.showPaused();
+    }
+  }
+
+  private updateSingle(
+    data: QuotaData,
+    mode: StatusBarDisplayMode,
+    sessionUsage: Record<string, number>,
+    analytics: BucketAnalytics,
     config: {
       warningThreshold: number;
       criticalThreshold: number;
@@ -56,36 +257,383 @@ export class StatusBarManager {
       timeMode: TimeDisplayMode;
       showAnalytics: boolean;
       analyticsMode: CompactAnalyticsMode;
+      format: string;
     }
   ) {
+    let templateError: string | undefined;
+    if (config.format.trim()) {
+      try {
+        this.updateFromTemplate(data, mode, sessionUsage, analytics, config);
+        return;
+      } catch (error) {
+        if (!(error instanceof TemplateError)) {
+          throw error;
+        }
+        templateError = error.message;
+      }
+    }
+
     switch (mode) {
-      case 'subscription':
-        this.updateForQuota(
-          'subscription',
-          data.subscription,
-          sessionUsage.subscription,
-          config,
-          analytics
-        );
-        break;
-      case 'toolCalls':
-        this.updateForQuota('toolCalls', data.freeToolCalls, sessionUsage.toolCalls, config);
-        break;
-      case 'search':
-        this.updateForQuota('search', data.search.hourly, sessionUsage.search, config);
-        break;
       case 'all':
-        this.updateAll(data, sessionUsage, config, analytics);
+        this.updateAll(data, config, analytics);
         break;
       case 'average':
         this.updateAverage(data, sessionUsage, config);
         break;
+      default: {
+        // A bucket that is no longer reported falls back to the first one available
+        const bucket = getBucket(data, mode) ?? data.buckets[0];
+        if (!bucket) {
+          this.updateAll(data, config, analytics);
+          break;
+        }
+        this.updateForQuota(
+          this.statusBarItem,
+          bucket,
+          sessionUsage[bucket.id] ?? 0,
+          config,
+          analytics[bucket.id]
+        );
+      }
+    }
+
+    if (this.accountLabel) {
+      this.statusBarItem.text += ` · ${this.accountLabel}`;
+    }
+    this.showSpikes(
+      this.statusBarItem,
+      data.buckets.filter((bucket) => analytics[bucket.id]?.spike)
+    );
+    if (templateError) {
+      this.showTemplateError(config.format, templateError);
+    }
+  }
+
+  /**
+   * Highlights an item while any of its buckets is spiking, so runaway usage stands out
+   * even after its notification was dismissed.
+   */
+  private showSpikes(item: vscode.StatusBarItem, spiking: QuotaBucket[]) {
+    if (spiking.length === 0) {
+      item.backgroundColor = undefined;
+      return;
+    }
+    item.text = `$(flame) ${item.text}`;
+    item.backgroundColor = new vscode.ThemeColor('statusBarItem.warningBackground');
+  }
+
+  /**
+   * Dims every item and notes when the data was fetched. With per-bucket items the combined
+   * item carries the marker and retries when clicked.
+   */
+  private showStale(since: number, error: Error | null) {
+    const time = new Date(since).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    const note = error
+      ? `Refresh failed: ${error.message}. Showing data from ${time}; countdowns are kept current.`
+      : `Showing data from ${time} until the first refresh completes.`;
+    const dimmed = new vscode.ThemeColor('disabledForeground');
+
+    const items = this.bucketItemsShown ? [...this.bucketItems.values()] : [this.statusBarItem];
+    for (const item of items) {
+      item.color = dimmed;
+      const tooltip = item.tooltip;
+      if (tooltip instanceof vscode.MarkdownString) {
+        tooltip.appendMarkdown('\n\n').appendText(`🕓 ${note}`);
+      } else {
+        item.tooltip = `${note}\n\n${tooltip ?? ''}`;
+      }
+    }
+
+    if (this.bucketItemsShown) {
+      this.statusBarItem.text = `$(history) stale since ${time}`;
+      this.statusBarItem.color = dimmed;
+      this.statusBarItem.backgroundColor = undefined;
+      this.statusBarItem.tooltip = `${note}\n\nClick to retry`;
+      this.statusBarItem.command = this.retryCommand;
+      this.statusBarItem.show();
+    } else {
+      this.statusBarItem.text += ` · stale since ${time}`;
+    }
+  }
+
+  /**
+   * Marks the display as simulated so it can't be mistaken for live quota. With per-bucket
+   * items the combined item turns into the marker and stops the simulation when clicked.
+   */
+  private showSimulation(label: string) {
+    const note = `Simulated quota (${label}), not your real usage.`;
+    if (this.bucketItemsShown) {
+      this.statusBarItem.text = '$(beaker) SIMULATED';
+      this.statusBarItem.color = undefined;
+      this.statusBarItem.backgroundColor = undefined;
+      this.statusBarItem.tooltip = `${note}\n\nClick to stop the simulation`;
+      this.statusBarItem.command = this.stopSimulationCommand;
+      this.statusBarItem.show();
+      return;
+    }
+    this.statusBarItem.text = `$(beaker) SIMULATED ${this.statusBarItem.text}`;
+    const tooltip = this.statusBarItem.tooltip;
+    if (tooltip instanceof vscode.MarkdownString) {
+      tooltip.appendMarkdown('\n\n').appendText(`🧪 ${note}`);
+    } else {
+      this.statusBarItem.tooltip = `${note}\n\n${tooltip ?? ''}`;
+    }
+  }
+
+  /**
+   * Marks the display as paused. With per-bucket items the combined item turns into a
+   * pause indicator that resumes polling when clicked.
+   */
+  private showPaused() {
+    const note = 'Auto-refresh is paused. Values are from the last refresh.';
+    if (this.bucketItemsShown) {
+      this.statusBarItem.text = '$(debug-pause)';
+      this.statusBarItem.color = undefined;
+      this.statusBarItem.tooltip = `${note}\n\nClick to resume`;
+      this.statusBarItem.command = this.resumeCommand;
+      this.statusBarItem.show();
+      return;
+    }
+    this.statusBarItem.text = `$(debug-pause) ${this.statusBarItem.text}`;
+    const tooltip = this.statusBarItem.tooltip;
+    if (tooltip instanceof vscode.MarkdownString) {
+      tooltip.appendMarkdown('\n\n').appendText(`⏸️ ${note}`);
+    } else {
+      this.statusBarItem.tooltip = `${note}\n\n${tooltip ?? ''}`;
+    }
+  }
+
+  /**
+   * Shows one coloured item per selected bucket. The combined item only appears when every
+   * bucket is hidden below the `hideBelow` usage, so the dashboard stays one click away.
+   */
+  private updatePerBucket(
+    data: QuotaData,
+    sessionUsage: Record<string, number>,
+    analytics: BucketAnalytics,
+    config: {
+      warningThreshold: number;
+      criticalThreshold: number;
+      showCountdown: boolean;
+      timeMode: TimeDisplayMode;
+      showAnalytics: boolean;
+      analyticsMode: CompactAnalyticsMode;
+    }
+  ) {
+    const selected = this.layout.buckets.length
+      ? this.layout.buckets
+          .map((id) => getBucket(data, id))
+          .filter((bucket): bucket is QuotaBucket => !!bucket)
+      : data.buckets;
+
+    const ids = selected.map((bucket) => bucket.id);
+    if (ids.join('\n') !== [...this.bucketItems.keys()].join('\n')) {
+      this.disposeBucketItems();
+      // Slightly lower priorities keep the items in the selected order next to each other
+      ids.forEach((id, index) =>
+        this.bucketItems.set(id, this.createItem(this.layout.priority - (index + 1) / 100))
+      );
+    }
+
+    let visible = 0;
+    for (const bucket of selected) {
+      const item = this.bucketItems.get(bucket.id)!;
+      if (getUsedPercent(bucket) < this.layout.hideBelow) {
+        item.hide();
+        continue;
+      }
+      item.command = {
+        title: 'Show Details',
+        command: this.command,
+        arguments: [bucket.id]
+      };
+      this.updateForQuota(
+        item,
+        bucket,
+        sessionUsage[bucket.id] ?? 0,
+        config,
+        analytics[bucket.id],
+        `${getShortLabel(bucket)}:`
+      );
+      this.showSpikes(item, analytics[bucket.id]?.spike ? [bucket] : []);
+      visible++;
+    }
+
+    this.bucketItemsShown = visible > 0;
+    if (visible > 0) {
+      this.statusBarItem.hide();
+      return;
+    }
+    const display = this.getQuotaDisplayConfig(
+      0,
+      config.warningThreshold,
+      config.criticalThreshold
+    );
+    this.statusBarItem.text = `${display.icon} Synthetic`;
+    this.statusBarItem.color = display.color;
+    this.statusBarItem.backgroundColor = undefined;
+    this.statusBarItem.tooltip = selected.length
+      ? `All quotas are below ${this.layout.hideBelow}% used\n\nClick for detailed view`
+      : 'None of the buckets in syntheticQuota.statusBarBuckets is reported\n\nClick for detailed view';
+    this.statusBarItem.show();
+  }
+
+  /**
+   * Renders the user's `statusBarFormat` template. Colour and tooltip follow the most used
+   * bucket so the item still signals trouble whatever the template shows.
+   */
+  private updateFromTemplate(
+    data: QuotaData,
+    mode: StatusBarDisplayMode,
+    sessionUsage: Record<string, number>,
+    analytics: BucketAnalytics,
+    config: {
+      warningThreshold: number;
+      criticalThreshold: number;
+      timeMode: TimeDisplayMode;
+      format: string;
+    }
+  ) {
+    if (this.template?.source !== config.format) {
+      this.template = { source: config.format, parsed: parseTemplate(config.format) };
+    }
+    const worst = data.buckets.reduce<QuotaBucket | undefined>(
+      (max, bucket) => (!max || getUsedPercent(bucket) > getUsedPercent(max) ? bucket : max),
+      undefined
+    );
+    const worstDisplay = this.getQuotaDisplayConfig(
+      worst ? getUsedPercent(worst) : 0,
+      config.warningThreshold,
+      config.criticalThreshold
+    );
+
+    const context: TemplateContext = {
+      globals: { icon: worstDisplay.icon, account: this.accountLabel ?? '' },
+      buckets: {}
+    };
+    for (const bucket of data.buckets) {
+      context.buckets[bucket.id] = this.getTemplateValues(
+        bucket,
+        sessionUsage[bucket.id] ?? 0,
+        analytics[bucket.id],
+        config
+      );
     }
+
+    const text = renderTemplate(this.template.parsed, context);
+    const focused = getBucket(data, mode) ?? worst;
+    this.statusBarItem.text = text || worstDisplay.icon;
+    this.statusBarItem.color = worstDisplay.color;
+    this.statusBarItem.tooltip = focused
+      ? this.buildTooltip(
+          focused,
+          getUsedPercent(focused),
+          this.getQuotaDisplayConfig(
+            getUsedPercent(focused),
+            config.warningThreshold,
+            config.criticalThreshold
+          ).description,
+          config.timeMode,
+          analytics[focused.id]
+        )
+      : 'Click for detailed view';
+    this.statusBarItem.show();
+  }
+
+  private getTemplateValues(
+    bucket: QuotaBucket,
+    sessionUsed: number,
+    analytics: QuotaAnalytics | undefined,
+    config: { warningThreshold: number; criticalThreshold: number }
+  ): Record<TemplateField, TemplateValue> {
+    const used = getUsedPercent(bucket);
+    const remaining = bucket.limit - bucket.requests;
+    const resetMs = new Date(bucket.renewsAt).getTime();
+    const number = (value: number, decimals = 0): TemplateValue => ({
+      text: value.toFixed(decimals),
+      value
+    });
+    const text = (value: string): TemplateValue => ({ text: value, value: null });
+    const depletion = analytics?.hoursUntilDepletion ?? null;
+    const forecast = analytics?.projectedUsageAtReset ?? null;
+    const pace = analytics?.pace ?? null;
+
+    return {
+      percent: number(used),
+      remainingPercent: number(100 - used),
+      used: number(bucket.requests, Number.isInteger(bucket.requests) ? 0 : 1),
+      limit: number(bucket.limit, Number.isInteger(bucket.limit) ? 0 : 1),
+      remaining: number(remaining, Number.isInteger(remaining) ? 0 : 1),
+      session: number(sessionUsed),
+      burn: analytics ? number(analytics.burnRatePerHour, 1) : { text: '', value: null },
+      eta:
+        depletion !== null
+          ? { text: this.formatCompactDepletion(depletion), value: depletion }
+          : { text: '', value: null },
+      countdown: {
+        text: this.formatCountdown(bucket.renewsAt),
+        value: Math.max(0, resetMs - this.now()) / MS_PER_HOUR
+      },
+      resetAt: text(
+        new Date(resetMs).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+      ),
+      trend: text(analytics ? this.getTrendIcon(analytics.trend) : ''),
+      forecast: forecast !== null ? number(forecast) : { text: '', value: null },
+      pace: pace
+        ? {
+            text: `${pace.deltaPercent >= 0 ? '+' : ''}${pace.deltaPercent.toFixed(0)}%`,
+            value: pace.deltaPercent
+          }
+        : { text: '', value: null },
+      allowance:
+        pace && pace.allowancePerHour !== null
+          ? number(pace.allowancePerHour, pace.allowancePerHour < 10 ? 1 : 0)
+          : { text: '', value: null },
+      icon: text(
+        this.getQuotaDisplayConfig(used, config.warningThreshold, config.criticalThreshold).icon
+      ),
+      label: text(bucket.label),
+      shortLabel: text(getShortLabel(bucket))
+    };
+  }
+
+  /**
+   * Invalid templates fall back to the `statusBarDisplay` mode. The problem is flagged in
+   * the item and tooltip, and reported once per template so polling does not repeat it.
+   */
+  private showTemplateError(format: string, message: string) {
+    this.statusBarItem.text += ' $(warning)';
+    const note = `⚠️ statusBarFormat error: ${message}`;
+    const tooltip = this.statusBarItem.tooltip;
+    if (tooltip instanceof vscode.MarkdownString) {
+      tooltip.appendMarkdown('\n\n').appendText(note);
+    } else {
+      this.statusBarItem.tooltip = `${tooltip ?? ''}\n\n${note}`;
+    }
+
+    const key = `${format}\n${message}`;
+    if (this.reportedTemplateError === key) {
+      return;
+    }
+    this.reportedTemplateError = key;
+    vscode.window
+      .showWarningMessage(
+        `Cosmic Quota: the statusBarFormat template is invalid and was ignored. ${message}`,
+        'Open Settings'
+      )
+      .then((choice) => {
+        if (choice === 'Open Settings') {
+          vscode.commands.executeCommand(
+            'workbench.action.openSettings',
+            'syntheticQuota.statusBarFormat'
+          );
+        }
+      });
   }
 
   private updateForQuota(
-    name: string,
-    quota: { requests: number; limit: number; renewsAt: string },
+    item: vscode.StatusBarItem,
+    quota: QuotaBucket,
     sessionUsed: number,
     config: {
       warningThreshold: number;
@@ -95,68 +643,70 @@ export class StatusBarManager {
       analyticsMode: CompactAnalyticsMode;
       timeMode: TimeDisplayMode;
     },
-    analytics?: QuotaAnalytics
+    analytics?: QuotaAnalytics,
+    prefix = ''
   ) {
-    const usedPercent = (quota.requests / quota.limit) * 100;
+    const usedPercent = getUsedPercent(quota);
     const display = this.getQuotaDisplayConfig(
       usedPercent,
       config.warningThreshold,
       config.criticalThreshold
     );
 
-    let text = `${display.icon} ${usedPercent.toFixed(0)}%`;
+    let text = `${display.icon} ${prefix}${usedPercent.toFixed(0)}%`;
     if (sessionUsed > 0) {
       text += ` (-${sessionUsed}%)`;
     }
-    if (name === 'subscription' && analytics) {
+    if (analytics) {
       text += this.getCompactAnalyticsText(
         analytics,
         usedPercent,
         config.showAnalytics,
         config.analyticsMode
       );
+      // A pacing target is opt-in, so its status shows regardless of the analytics mode
+      if (analytics.pace) {
+        text += ` • ${this.formatPace(analytics.pace)}`;
+      }
     }
 
     if (usedPercent >= 100 && config.showCountdown) {
       const countdown = this.formatCountdown(quota.renewsAt);
-      text = `${display.icon} ~${countdown}`;
+      text = `${display.icon} ${prefix}~${countdown}`;
     }
 
-    this.statusBarItem.text = text;
-    this.statusBarItem.color = display.color;
-    this.statusBarItem.tooltip = this.buildTooltip(
-      name,
+    item.text = text;
+    item.color = display.color;
+    item.tooltip = this.buildTooltip(
       quota,
       usedPercent,
       display.description,
       config.timeMode,
       analytics
     );
-    this.statusBarItem.show();
+    item.show();
   }
 
   private updateAll(
     data: QuotaData,
-    sessionUsage: Record<string, number>,
     config: { showAnalytics: boolean; analyticsMode: CompactAnalyticsMode },
-    analytics: QuotaAnalytics
+    analytics: BucketAnalytics
   ) {
-    const subPercent = (data.subscription.requests / data.subscription.limit) * 100;
-    const toolPercent = (data.freeToolCalls.requests / data.freeToolCalls.limit) * 100;
-    const searchPercent = (data.search.hourly.requests / data.search.hourly.limit) * 100;
+    const showTrend =
+      config.showAnalytics && (config.analyticsMode === 'trend' || config.analyticsMode === 'auto');
+    const trendSuffix = (bucket?: QuotaAnalytics) =>
+      showTrend && bucket && bucket.trend !== 'stable' ? this.getTrendIcon(bucket.trend) : '';
 
-    let text = `$(dashboard) S:${subPercent.toFixed(0)}% T:${toolPercent.toFixed(0)}% H:${searchPercent.toFixed(0)}%`;
-    if (
-      config.showAnalytics &&
-      (config.analyticsMode === 'trend' || config.analyticsMode === 'auto') &&
-      analytics.trend !== 'stable'
-    ) {
-      text += ` ${this.getTrendIcon(analytics.trend)}`;
-    }
+    const parts = data.buckets.map(
+      (bucket) =>
+        `${getShortLabel(bucket)}:${getUsedPercent(bucket).toFixed(0)}%${trendSuffix(analytics[bucket.id])}`
+    );
 
-    this.statusBarItem.text = text;
+    this.statusBarItem.text = `$(dashboard) ${parts.join(' ')}`;
     this.statusBarItem.color = undefined;
-    this.statusBarItem.tooltip = 'Click for detailed view';
+    this.statusBarItem.tooltip = this.accountLabel
+      ? `Account: ${this.accountLabel}\n\nClick for detailed view`
+      : 'Click for detailed view';
     this.statusBarItem.show();
   }
 
@@ -165,10 +715,9 @@ export class StatusBarManager {
     sessionUsage: Record<string, number>,
     config: { warningThreshold: number; criticalThreshold: number }
   ) {
-    const subPercent = (data.subscription.requests / data.subscription.limit) * 100;
-    const toolPercent = (data.freeToolCalls.requests / data.freeToolCalls.limit) * 100;
-    const searchPercent = (data.search.hourly.requests / data.search.hourly.limit) * 100;
-    const avgPercent = (subPercent + toolPercent + searchPercent) / 3;
+    const count = Math.max(1, data.buckets.length);
+    const avgPercent =
+      data.buckets.reduce((sum, bucket) => sum + getUsedPercent(bucket), 0) / count;
 
     const display = this.getQuotaDisplayConfig(
       avgPercent,
@@ -177,14 +726,19 @@ export class StatusBarManager {
     );
     let text = `${display.icon} ${avgPercent.toFixed(0)}% avg`;
 
-    const totalSession = sessionUsage.subscription + sessionUsage.toolCalls + sessionUsage.search;
+    const totalSession = data.buckets.reduce(
+      (sum, bucket) => sum + (sessionUsage[bucket.id] ?? 0),
+      0
+    );
     if (totalSession > 0) {
-      text += ` (-${Math.round(totalSession / 3)}%)`;
+      text += ` (-${Math.round(totalSession / count)}%)`;
     }
 
     this.statusBarItem.text = text;
     this.statusBarItem.color = display.color;
-    this.statusBarItem.tooltip = 'Click for detailed view';
+    this.statusBarItem.tooltip = this.accountLabel
+      ? `Account: ${this.accountLabel}\n\nClick for detailed view`
+      : 'Click for detailed view';
     this.statusBarItem.show();
   }
 
@@ -212,8 +766,12 @@ export class StatusBarManager {
     }
   }
 
+  private now(): number {
+    return this.simulation?.now() ?? Date.now();
+  }
+
   private formatCountdown(isoDate: string): string {
-    const diffMs = Math.max(0, new Date(isoDate).getTime() - Date.now());
+    const diffMs = Math.max(0, new Date(isoDate).getTime() - this.now());
     const hours = Math.floor(diffMs / MS_PER_HOUR);
     const minutes = Math.floor((diffMs % MS_PER_HOUR) / MS_PER_MINUTE);
     return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
@@ -228,17 +786,58 @@ export class StatusBarManager {
     if (!show || mode === 'off') {
       return '';
     }
-    if (mode === 'auto') {
-      if (usedPercent >= 90 && analytics.hoursUntilDepletion !== null) {
-        return ` • ${this.formatCompactDepletion(analytics.hoursUntilDepletion)} left`;
-      }
-      if (usedPercent >= 70 && analytics.trend !== 'stable') {
+    const depletion =
+      analytics.hoursUntilDepletion !== null
+        ? ` • ${this.formatCompactDepletion(analytics.hoursUntilDepletion)} left`
+        : '';
+    const burn =
+      analytics.burnRatePerHour > 0 ? ` • ${analytics.burnRatePerHour.toFixed(1)}%/h` : '';
+
+    switch (mode) {
+      case 'auto':
+        if (usedPercent >= 90 && depletion) {
+          return depletion;
+        }
+        if (usedPercent >= 70 && analytics.trend !== 'stable') {
+          return ` ${this.getTrendIcon(analytics.trend)}`;
+        }
+        if (usedPercent >= 50) {
+          return burn;
+        }
+        return '';
+      case 'trend':
         return ` ${this.getTrendIcon(analytics.trend)}`;
-      }
+      case 'depletion':
+        return depletion;
+      case 'burn':
+        return burn;
+    }
+  }
+
+  /**
+   * The forecast band as " (low–high<unit>)", left out when it has collapsed to a single
+   * value. An open upper end means not before the reset.
+   */
+  private formatRange(low: number | null, high: number | null, unit: string): string {
+    if (low === null) {
       return '';
     }
-    // ... other modes omitted for brevity in first refactor pass
-    return '';
+    const format = (value: number) => (unit === '%' ? value.toFixed(0) : value.toFixed(1));
+    if (high === null) {
+      return ` (${format(low)}${unit}–after reset)`;
+    }
+    return format(low) === format(high) ? '' : ` (${format(low)}–${format(high)}${unit})`;
+  }
+
+  private formatPace(pace: BucketPace): string {
+    switch (pace.status) {
+      case 'ahead':
+        return `${pace.deltaPercent.toFixed(0)}% ahead`;
+      case 'behind':
+        return `${(-pace.deltaPercent).toFixed(0)}% behind`;
+      default:
+        return 'on pace';
+    }
   }
 
   private formatCompactDepletion(hours: number): string {
@@ -249,8 +848,7 @@ export class StatusBarManager {
   }
 
   private buildTooltip(
-    name: string,
-    quota: { requests: number; limit: number; renewsAt: string },
+    quota: QuotaBucket,
     used: number,
     status: string,
     timeMode: TimeDisplayMode,
@@ -262,14 +860,8 @@ export class StatusBarManager {
 
     const remaining = quota.limit - quota.requests;
     const renewsAt = new Date(quota.renewsAt).toLocaleTimeString();
-    const displayName =
-      name === 'subscription'
-        ? 'Subscription'
-        : name === 'toolCalls'
-          ? 'Free Tool Calls'
-          : 'Search';
-
-    md.appendMarkdown(`## 👽 Cosmic Quota: ${displayName}\n\n`);
+    const account = this.accountLabel ? ` (${this.accountLabel})` : '';
+    md.appendMarkdown(`## 👽 Cosmic Quota: ${quota.label}${account}\n\n`);
     md.appendMarkdown(`| Metric | Value |\n| :--- | :--- |\n`);
     md.appendMarkdown(`| **Usage** | ${used.toFixed(1)}% |\n`);
     md.appendMarkdown(`| **Remaining** | ${remaining.toFixed(1)} |\n`);
@@ -279,8 +871,79 @@ export class StatusBarManager {
     if (analytics) {
       md.appendMarkdown(`### 📊 Projections\n`);
       md.appendMarkdown(`- **Trend**: ${this.getTrendIcon(analytics.trend)} ${analytics.trend}\n`);
+      md.appendMarkdown(`- **Burn Rate**: ${analytics.burnRatePerHour.toFixed(1)}%/h\n`);
       if (analytics.hoursUntilDepletion) {
-        md.appendMarkdown(`- **Depletion**: ~${analytics.hoursUntilDepletion.toFixed(1)}h\n`);
+        md.appendMarkdown(
+          `- **Depletion**: ~${analytics.hoursUntilDepletion.toFixed(1)}h${this.formatRange(
+            analytics.hoursUntilDepletionLow,
+            analytics.hoursUntilDepletionHigh,
+            'h'
+          )}\n`
+        );
+      } else if (analytics.hoursUntilDepletionLow !== null) {
+        md.appendMarkdown(
+          `- **Depletion**: possible in ~${analytics.hoursUntilDepletionLow.toFixed(1)}h\n`
+        );
+      }
+      if (analytics.projectedUsageAtReset !== null) {
+        md.appendMarkdown(
+          `- **Forecast at Reset**: ${analytics.projectedUsageAtReset}%${this.formatRange(
+            analytics.projectedUsageAtResetLow,
+            analytics.projectedUsageAtResetHigh,
+            '%'
+          )}\n`
+        );
+      }
+      md.appendMarkdown(
+        `- **Model**: ${FORECASTERS[analytics.forecastModel].label} (${analytics.forecastSource})\n`
+      );
+      md.appendMarkdown(
+        `- **Cycle**: ${analytics.cycleHours.toFixed(1)}h (${analytics.cycleSource})\n`
+      );
+    }
+
+    const spike = analytics?.spike;
+    if (spike) {
+      md.appendMarkdown(`\n### 🚨 Usage Spike\n`);
+      md.appendMarkdown(
+        `- **Rate**: ${spike.ratePerHour.toFixed(1)}%/h since ${new Date(spike.since).toLocaleTimeString()}\n`
+      );
+      if (spike.baselinePerHour !== null) {
+        md.appendMarkdown(`- **Baseline**: ${spike.baselinePerHour.toFixed(1)}%/h\n`);
+      }
+      if (spike.hoursUntilExhaustion !== null) {
+        md.appendMarkdown(
+          `- **Runs out in**: ~${this.formatCompactDepletion(spike.hoursUntilExhaustion)} at this rate\n`
+        );
+      }
+    }
+
+    const pace = analytics?.pace;
+    if (pace) {
+      md.appendMarkdown(`\n### 🎯 Pace\n`);
+      md.appendMarkdown(
+        `- **Target**: ${pace.targetPercent}% per cycle, ${pace.expectedPercent.toFixed(1)}% by now\n`
+      );
+      md.appendMarkdown(`- **Status**: ${this.formatPace(pace)}\n`);
+      if (pace.allowancePerHour !== null) {
+        md.appendMarkdown(
+          `- **Allowance**: ${pace.allowancePerHour.toFixed(1)} requests/h for the next ${pace.remainingHours.toFixed(1)}h\n`
+        );
+      }
+    }
+
+    const projects = this.projects
+      .filter((project) => (project.today[quota.id] ?? 0) > 0)
+      .sort((a, b) => b.today[quota.id] - a.today[quota.id])
+      .slice(0, PROJECTS_IN_TOOLTIP);
+    if (projects.length > 0) {
+      md.appendMarkdown(`\n### 🗂️ Projects Today\n`);
+      for (const project of projects) {
+        const requests = project.today[quota.id];
+        const share = quota.limit > 0 ? ` (${((requests / quota.limit) * 100).toFixed(1)}%)` : '';
+        md.appendMarkdown(`- **`);
+        md.appendText(project.name);
+        md.appendMarkdown(`**: ${requests.toFixed(requests < 10 ? 1 : 0)} requests${share}\n`);
       }
     }
 
@@ -288,7 +951,27 @@ export class StatusBarManager {
     return md;
   }
 
+  private createItem(priority: number): vscode.StatusBarItem {
+    const alignment =
+      this.layout.alignment === 'left'
+        ? vscode.StatusBarAlignment.Left
+        : vscode.StatusBarAlignment.Right;
+    return vscode.window.createStatusBarItem(alignment, priority);
+  }
+
+  private hideBucketItems() {
+    this.bucketItemsShown = false;
+    this.bucketItems.forEach((item) => item.hide());
+  }
+
+  private disposeBucketItems() {
+    this.bucketItemsShown = false;
+    this.bucketItems.forEach((item) => item.dispose());
+    this.bucketItems.clear();
+  }
+
   public dispose() {
     this.statusBarItem.dispose();
+    this.disposeBucketItems();
   }
 }
@@ -0,0 +1,204 @@
+import { QuotaBucketId } from '../api/types';
+
+/**
+ * Per-bucket values a template can reference as `{<bucket>.<field>}`. Conditions compare
+ * against `value`; `text` is what gets inserted.
+ */
+export const TEMPLATE_FIELDS = [
+  'percent',
+  'remainingPercent',
+  'used',
+  'limit',
+  'remaining',
+  'session',
+  'burn',
+  'eta',
+  'countdown',
+  'resetAt',
+  'trend',
+  'forecast',
+  'pace',
+  'allowance',
+  'icon',
+  'label',
+  'shortLabel'
+] as const;
+
+export type TemplateField = (typeof TEMPLATE_FIELDS)[number];
+
+export const TEMPLATE_GLOBALS = ['icon', 'account'] as const;
+
+export interface TemplateValue {
+  text: string;
+  value: number | null;
+}
+
+export interface TemplateContext {
+  globals: Record<(typeof TEMPLATE_GLOBALS)[number], string>;
+  buckets: Record<QuotaBucketId, Record<TemplateField, TemplateValue>>;
+}
+
+type Operator = '>' | '>=' | '<' | '<=' | '==' | '!=';
+
+interface Reference {
+  bucket: QuotaBucketId;
+  field: TemplateField;
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'global'; name: (typeof TEMPLATE_GLOBALS)[number] }
+  | { type: 'field'; ref: Reference }
+  | {
+      type: 'section';
+      ref: Reference;
+      condition?: { operator: Operator; operand: number };
+      children: TemplateNode[];
+    };
+
+export type ParsedTemplate = TemplateNode[];
+
+export class TemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TemplateError';
+  }
+}
+
+function parseReference(expression: string): Reference {
+  const dot = expression.lastIndexOf('.');
+  const field = expression.slice(dot + 1);
+  const bucket = expression.slice(0, dot);
+  if (dot <= 0 || !(TEMPLATE_FIELDS as readonly string[]).includes(field)) {
+    throw new TemplateError(
+      `Unknown placeholder {${expression}}. Use {<bucket>.<field>} with one of: ${TEMPLATE_FIELDS.join(', ')}`
+    );
+  }
+  return { bucket, field: field as TemplateField };
+}
+
+/**
+ * Parses a status bar template. Besides `{icon}`, `{account}` and `{<bucket>.<field>}`
+ * placeholders it supports sections shown only when a condition holds, e.g.
+ * `{?search.percent >= 80} H:{search.eta}{/}`, or when a value is present and non-zero:
+ * `{?search.eta}...{/}`.
+ * Bucket ids may contain dots; the field is everything after the last one.
+ */
+export function parseTemplate(template: string): ParsedTemplate {
+  const root: TemplateNode[] = [];
+  const stack: TemplateNode[][] = [root];
+  const pattern = /\{([^{}]*)\}/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  const pushText = (text: string) => {
+    if (text.includes('{') || text.includes('}')) {
+      throw new TemplateError(`Unbalanced braces in "${text}"`);
+    }
+    if (text) {
+      stack[stack.length - 1].push({ type: 'text', value: text });
+    }
+  };
+
+  while ((match = pattern.exec(template)) !== null) {
+    pushText(template.slice(last, match.index));
+    last = pattern.lastIndex;
+    const expression = match[1].trim();
+
+    if (expression === '/') {
+      if (stack.length === 1) {
+        throw new TemplateError('{/} closes a section that was never opened');
+      }
+      stack.pop();
+    } else if (expression.startsWith('?')) {
+      const condition = expression
+        .slice(1)
+        .trim()
+        .match(/^([\w.-]+)\s*(?:(>=|<=|==|!=|>|<)\s*(-?\d+(?:\.\d+)?))?$/);
+      if (!condition) {
+        throw new TemplateError(
+          `Invalid condition {${expression}}. Use e.g. {?subscription.percent >= 80}`
+        );
+      }
+      const section: TemplateNode = {
+        type: 'section',
+        ref: parseReference(condition[1]),
+        condition: condition[2]
+          ? { operator: condition[2] as Operator, operand: parseFloat(condition[3]) }
+          : undefined,
+        children: []
+      };
+      stack[stack.length - 1].push(section);
+      stack.push(section.children);
+    } else if ((TEMPLATE_GLOBALS as readonly string[]).includes(expression)) {
+      stack[stack.length - 1].push({
+        type: 'global',
+        name: expression as (typeof TEMPLATE_GLOBALS)[number]
+      });
+    } else {
+      stack[stack.length - 1].push({ type: 'field', ref: parseReference(expression) });
+    }
+  }
+  pushText(template.slice(last));
+
+  if (stack.length > 1) {
+    throw new TemplateError('A {?...} section is missing its closing {/}');
+  }
+  return root;
+}
+
+function lookup(ref: Reference, context: TemplateContext): TemplateValue {
+  const bucket = context.buckets[ref.bucket];
+  if (!bucket) {
+    const known = Object.keys(context.buckets).join(', ');
+    throw new TemplateError(`Unknown bucket "${ref.bucket}". Available buckets: ${known}`);
+  }
+  return bucket[ref.field];
+}
+
+function compare(value: number, operator: Operator, operand: number): boolean {
+  switch (operator) {
+    case '>':
+      return value > operand;
+    case '>=':
+      return value >= operand;
+    case '<':
+      return value < operand;
+    case '<=':
+      return value <= operand;
+    case '==':
+      return value === operand;
+    case '!=':
+      return value !== operand;
+  }
+}
+
+function renderNodes(nodes: TemplateNode[], context: TemplateContext): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return node.value;
+        case 'global':
+          return context.globals[node.name];
+        case 'field':
+          return lookup(node.ref, context).text;
+        case 'section': {
+          const { value, text } = lookup(node.ref, context);
+          const visible = node.condition
+            ? value !== null && compare(value, node.condition.operator, node.condition.operand)
+            : text !== '' && (value === null || value !== 0);
+          return visible ? renderNodes(node.children, context) : '';
+        }
+      }
+    })
+    .join('');
+}
+
+/**
+ * Renders a parsed template. Whitespace left behind by hidden sections or empty values is
+ * collapsed. Throws `TemplateError` when a referenced bucket is not reported.
+ */
+export function renderTemplate(template: ParsedTemplate, context: TemplateContext): string {
+  return renderNodes(template, context).replace(/\s+/g, ' ').trim();
+}
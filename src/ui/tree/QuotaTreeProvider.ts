@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import { QuotaTreeNode } from './treeModel';
+
+export interface QuotaTreeHost {
+  getQuotaTree(): QuotaTreeNode[];
+}
+
+/**
+ * The quota view in the activity bar. The host builds the whole tree on demand, so a
+ * `refresh()` after every quota update is cheap while the view is hidden.
+ */
+export class QuotaTreeProvider implements vscode.TreeDataProvider<QuotaTreeNode> {
+  public static readonly viewId = 'syntheticQuota.quotaView';
+
+  private changeEmitter = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(
+    private host: QuotaTreeHost,
+    private detailsCommand: string
+  ) {}
+
+  public refresh() {
+    this.changeEmitter.fire();
+  }
+
+  public getChildren(node?: QuotaTreeNode): QuotaTreeNode[] {
+    return node ? (node.children ?? []) : this.host.getQuotaTree();
+  }
+
+  public getTreeItem(node: QuotaTreeNode): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      node.label,
+      !node.children
+        ? vscode.TreeItemCollapsibleState.None
+        : node.bucket
+          ? vscode.TreeItemCollapsibleState.Collapsed
+          : vscode.TreeItemCollapsibleState.Expanded
+    );
+    item.id = node.id;
+    item.description = node.description;
+    item.tooltip = node.tooltip;
+    if (node.icon) {
+      item.iconPath = new vscode.ThemeIcon(
+        node.icon,
+        node.color ? new vscode.ThemeColor(node.color) : undefined
+      );
+    }
+    // Matched by the inline actions in package.json
+    item.contextValue = node.copyValue ? 'copyable' : undefined;
+    if (node.bucket) {
+      item.command = {
+        command: this.detailsCommand,
+        title: 'Open Dashboard',
+        arguments: [node.bucket]
+      };
+    }
+    return item;
+  }
+
+  public dispose() {
+    this.changeEmitter.dispose();
+  }
+}
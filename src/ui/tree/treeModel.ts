@@ -0,0 +1,330 @@
+import {
+  QuotaData,
+  BucketAnalytics,
+  QuotaBucket,
+  QuotaBucketId,
+  ResetEvent,
+  SessionBucketUsage
+} from '../../api/types';
+import { getUsedPercent } from '../../api/buckets';
+import { SessionSummary } from '../../monitor/sessionSummary';
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_HOUR = 3600000;
+// Most recent resets and finished sessions listed per account
+const RESETS_LISTED = 10;
+const SESSIONS_LISTED = 10;
+
+export interface TreeSession {
+  name: string | null;
+  start: number;
+  usage: Record<QuotaBucketId, SessionBucketUsage>;
+}
+
+export interface TreeAccount {
+  id: string;
+  name: string;
+  data: QuotaData | null;
+  analytics: BucketAnalytics | null;
+  error: string | null;
+  // When the data was fetched, if it is from the cache or a refresh has failed since
+  staleSince: number | null;
+  resets: ResetEvent[];
+  session: TreeSession | null;
+  // Finished sessions, oldest first
+  sessions: SessionSummary[];
+}
+
+export interface TreeOptions {
+  warningThreshold: number;
+  criticalThreshold: number;
+  now: number;
+  // Shown as a marker row on top while a simulation runs
+  simulation?: { label: string; speed: number };
+}
+
+/**
+ * A row of the quota view. Plain data, so the tree can be built and tested without VS Code;
+ * `QuotaTreeProvider` turns it into tree items.
+ */
+export interface QuotaTreeNode {
+  // Stable across refreshes so expanded rows stay expanded
+  id: string;
+  label: string;
+  description?: string;
+  tooltip?: string;
+  // Codicon id and theme colour id
+  icon?: string;
+  color?: string;
+  children?: QuotaTreeNode[];
+  // Put on the clipboard by the copy action; rows without one can't be copied
+  copyValue?: string;
+  // Clicking the row opens the dashboard on this bucket
+  bucket?: QuotaBucketId;
+}
+
+/**
+ * Builds the quota view: every bucket with its figures as children, then the current session
+ * and the latest resets. With more than one account each gets its own top-level row.
+ */
+export function buildQuotaTree(accounts: TreeAccount[], options: TreeOptions): QuotaTreeNode[] {
+  const marker: QuotaTreeNode[] = options.simulation
+    ? [
+        {
+          id: 'simulation',
+          label: 'SIMULATED',
+          description: `${options.simulation.label} · ${options.simulation.speed}× speed`,
+          tooltip: 'Simulated quota, not your real usage',
+          icon: 'beaker',
+          color: 'charts.purple'
+        }
+      ]
+    : [];
+  if (accounts.length === 1) {
+    return [...marker, ...getAccountChildren(accounts[0], options)];
+  }
+  return [
+    ...marker,
+    ...accounts.map((account) => ({
+      id: account.id,
+      label: account.name,
+      icon: 'account',
+      children: getAccountChildren(account, options)
+    }))
+  ];
+}
+
+function getAccountChildren(account: TreeAccount, options: TreeOptions): QuotaTreeNode[] {
+  const nodes: QuotaTreeNode[] = [];
+  if (account.data && account.staleSince !== null) {
+    nodes.push({
+      id: `${account.id}/stale`,
+      label: account.error ? 'Refresh failed' : 'Cached data',
+      description: `stale since ${formatDateTime(account.staleSince, options.now)}`,
+      tooltip: account.error ?? 'Shown until the first refresh completes',
+      icon: 'history',
+      color: 'disabledForeground',
+      copyValue: account.error ?? undefined
+    });
+  } else if (account.error) {
+    nodes.push({
+      id: `${account.id}/error`,
+      label: 'Refresh failed',
+      description: account.error,
+      tooltip: account.error,
+      icon: 'error',
+      color: 'errorForeground',
+      copyValue: account.error
+    });
+  }
+  if (!account.data) {
+    if (!account.error) {
+      nodes.push({ id: `${account.id}/loading`, label: 'Loading quota…', icon: 'loading~spin' });
+    }
+    return nodes;
+  }
+
+  const { data, analytics } = account;
+  nodes.push(
+    ...data.buckets.map((bucket) => getBucketNode(account.id, bucket, analytics, options))
+  );
+
+  if (account.session) {
+    nodes.push(getSessionNode(account.id, account.session, data));
+  }
+
+  const labels = new Map(data.buckets.map((bucket) => [bucket.id, bucket.label]));
+  if (account.sessions.length > 0) {
+    nodes.push(getPastSessionsNode(account.id, account.sessions, labels, options));
+  }
+  const resets = account.resets.slice(-RESETS_LISTED).reverse();
+  nodes.push({
+    id: `${account.id}/resets`,
+    label: 'Recent Resets',
+    description: resets.length === 0 ? 'none yet' : undefined,
+    icon: 'history',
+    children: resets.map((reset) => ({
+      id: `${account.id}/resets/${reset.bucket}/${reset.timestamp}`,
+      label: labels.get(reset.bucket) ?? reset.bucket,
+      description: `${formatDateTime(reset.timestamp, options.now)} · ${reset.requestsBefore} → ${reset.requestsAfter}`,
+      tooltip: `Requests dropped from ${reset.requestsBefore} to ${reset.requestsAfter}; next reset at ${formatDateTime(new Date(reset.renewsAt).getTime(), options.now)}`,
+      icon: 'debug-restart',
+      copyValue: new Date(reset.timestamp).toISOString()
+    }))
+  });
+  return nodes;
+}
+
+function getBucketNode(
+  accountId: string,
+  bucket: QuotaBucket,
+  analytics: BucketAnalytics | null,
+  options: TreeOptions
+): QuotaTreeNode {
+  const id = `${accountId}/${bucket.id}`;
+  const used = getUsedPercent(bucket);
+  const remaining = Math.max(0, bucket.limit - bucket.requests);
+  const renewsAt = new Date(bucket.renewsAt).getTime();
+  const countdown = formatCountdown(renewsAt - options.now);
+  const level =
+    used >= options.criticalThreshold
+      ? { icon: 'error', color: 'charts.red' }
+      : used >= options.warningThreshold
+        ? { icon: 'warning', color: 'charts.orange' }
+        : used >= 50
+          ? { icon: 'info', color: 'charts.yellow' }
+          : { icon: 'check', color: 'charts.green' };
+
+  const children: QuotaTreeNode[] = [
+    value(id, 'used', 'Used', `${used.toFixed(1)}%`, `${bucket.requests} / ${bucket.limit}`),
+    value(id, 'remaining', 'Remaining', `${remaining}`, `${(100 - used).toFixed(1)}%`),
+    value(id, 'reset', 'Resets', `in ${countdown}`, formatDateTime(renewsAt, options.now))
+  ];
+
+  const stats = analytics?.[bucket.id];
+  if (stats) {
+    children.push(
+      value(id, 'burn', 'Burn Rate', `${stats.burnRatePerHour.toFixed(1)}%/h`),
+      value(id, 'trend', 'Trend', stats.trend),
+      value(
+        id,
+        'depletion',
+        'Runs Out',
+        stats.hoursUntilDepletion !== null
+          ? `in ${formatCountdown(stats.hoursUntilDepletion * MS_PER_HOUR)}`
+          : 'not before reset'
+      )
+    );
+    if (stats.projectedUsageAtReset !== null) {
+      children.push(value(id, 'forecast', 'At Reset', `${stats.projectedUsageAtReset}%`));
+    }
+    if (stats.pace) {
+      const { deltaPercent, status, allowancePerHour } = stats.pace;
+      children.push(
+        value(
+          id,
+          'pace',
+          'Pace',
+          status === 'onPace' ? 'on pace' : `${Math.abs(deltaPercent).toFixed(0)}% ${status}`,
+          allowancePerHour !== null ? `${Math.floor(allowancePerHour)} requests/h left` : undefined
+        )
+      );
+    }
+    if (stats.spike) {
+      children.push({
+        ...value(id, 'spike', 'Spike', `${stats.spike.ratePerHour.toFixed(0)}%/h`),
+        icon: 'flame',
+        color: 'charts.orange'
+      });
+    }
+  }
+
+  return {
+    id,
+    label: bucket.label,
+    description: `${used.toFixed(0)}% · ${remaining} left · ${countdown}`,
+    tooltip: `${bucket.label}: ${bucket.requests} of ${bucket.limit} requests used, resets in ${countdown}`,
+    ...level,
+    children,
+    copyValue: `${bucket.label}: ${used.toFixed(1)}% used (${bucket.requests}/${bucket.limit}), resets in ${countdown}`,
+    bucket: bucket.id
+  };
+}
+
+function getSessionNode(accountId: string, session: TreeSession, data: QuotaData): QuotaTreeNode {
+  const id = `${accountId}/session`;
+  return {
+    id,
+    label: 'Current Session',
+    description: `${session.name ? `${session.name} · ` : ''}since ${formatTime(session.start)}`,
+    icon: 'watch',
+    children: data.buckets.map((bucket) => {
+      const usage = session.usage[bucket.id] ?? { percent: 0, requests: 0, resets: 0 };
+      return value(
+        id,
+        bucket.id,
+        bucket.label,
+        `${usage.percent >= 0 ? '+' : ''}${usage.percent.toFixed(1)}%`,
+        formatRequestsAndResets(usage.requests, usage.resets)
+      );
+    })
+  };
+}
+
+function getPastSessionsNode(
+  accountId: string,
+  sessions: SessionSummary[],
+  labels: Map<QuotaBucketId, string>,
+  options: TreeOptions
+): QuotaTreeNode {
+  const id = `${accountId}/sessions`;
+  return {
+    id,
+    label: 'Past Sessions',
+    icon: 'history',
+    children: sessions
+      .slice(-SESSIONS_LISTED)
+      .reverse()
+      .map((session) => {
+        const sessionId = `${id}/${session.start}`;
+        const limitHit = Object.values(session.buckets).some((stats) => stats.limitHit);
+        return {
+          id: sessionId,
+          label: session.name ?? 'Unnamed session',
+          description: `${formatDateTime(session.start, options.now)} · ${formatCountdown(session.end - session.start)}`,
+          tooltip: limitHit ? 'A quota reached its limit during this session' : undefined,
+          icon: limitHit ? 'error' : 'watch',
+          color: limitHit ? 'charts.red' : undefined,
+          children: Object.entries(session.buckets).map(([bucket, stats]) =>
+            value(
+              sessionId,
+              bucket,
+              labels.get(bucket) ?? bucket,
+              `${stats.used >= 0 ? '+' : ''}${stats.used.toFixed(1)}%`,
+              `${formatRequestsAndResets(stats.requests, stats.resets)}, peak ${stats.peakBurnRate.toFixed(1)}%/h${stats.limitHit ? ', limit hit' : ''}`
+            )
+          )
+        };
+      })
+  };
+}
+
+function formatRequestsAndResets(requests: number, resets: number): string {
+  const text = `${requests} ${requests === 1 ? 'request' : 'requests'}`;
+  return resets > 0 ? `${text}, ${resets} ${resets === 1 ? 'reset' : 'resets'}` : text;
+}
+
+function value(
+  parentId: string,
+  key: string,
+  label: string,
+  text: string,
+  detail?: string
+): QuotaTreeNode {
+  return {
+    id: `${parentId}/${key}`,
+    label,
+    description: detail ? `${text} (${detail})` : text,
+    copyValue: text
+  };
+}
+
+function formatCountdown(ms: number): string {
+  const diffMs = Math.max(0, ms);
+  const hours = Math.floor(diffMs / MS_PER_HOUR);
+  const minutes = Math.floor((diffMs % MS_PER_HOUR) / MS_PER_MINUTE);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function formatTime(timestamp: number): string {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+}
+
+// Times on another day than `now` get their date too
+function formatDateTime(timestamp: number, now: number): string {
+  const date = new Date(timestamp);
+  return date.toDateString() === new Date(now).toDateString()
+    ? formatTime(timestamp)
+    : `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')} ${formatTime(timestamp)}`;
+}
@@ -0,0 +1,42 @@
+import { QuotaBucket, QuotaSnapshot, ResetEvent } from '../../api/types';
+import { getUsedPercent } from '../../api/buckets';
+import { detectResets } from '../../monitor/sessionTracker';
+import { SpikeEvent } from '../../monitor/spikeStore';
+import { ChartHistory } from './protocol';
+
+/**
+ * Turns stored snapshots into one usage series per bucket plus the resets between them,
+ * alongside the recorded spikes. Buckets that only appear in older history keep their id
+ * as label.
+ */
+export function buildChartHistory(
+  snapshots: QuotaSnapshot[],
+  buckets: QuotaBucket[],
+  spikes: SpikeEvent[] = []
+): ChartHistory {
+  const labels = new Map(buckets.map((b) => [b.id, b.label]));
+  const points = new Map<string, Array<[number, number]>>();
+  // Current buckets come first so series colours follow the dashboard order
+  buckets.forEach((b) => points.set(b.id, []));
+
+  const resets: ResetEvent[] = [];
+  snapshots.forEach((snapshot, i) => {
+    for (const [id, sample] of Object.entries(snapshot.buckets)) {
+      if (!points.has(id)) {
+        points.set(id, []);
+      }
+      points.get(id)!.push([snapshot.timestamp, Math.round(getUsedPercent(sample) * 10) / 10]);
+    }
+    if (i > 0) {
+      resets.push(...detectResets(snapshots[i - 1], snapshot));
+    }
+  });
+
+  return {
+    series: [...points.entries()]
+      .filter(([, series]) => series.length > 0)
+      .map(([bucket, series]) => ({ bucket, label: labels.get(bucket) ?? bucket, points: series })),
+    resets,
+    spikes
+  };
+}
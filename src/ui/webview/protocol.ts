@@ -0,0 +1,69 @@
+import { QuotaData, BucketAnalytics, QuotaBucketId, ResetEvent } from '../../api/types';
+import { ProjectUsageSummary } from '../../monitor/projectUsageStore';
+import { SpikeEvent } from '../../monitor/spikeStore';
+import { SessionSummary } from '../../monitor/sessionSummary';
+
+export interface ChartSeries {
+  bucket: QuotaBucketId;
+  label: string;
+  // [timestamp, used percent]
+  points: Array<[number, number]>;
+}
+
+export interface ChartHistory {
+  series: ChartSeries[];
+  resets: ResetEvent[];
+  spikes: SpikeEvent[];
+}
+
+export interface AccountDashboard {
+  id: string;
+  name: string;
+  data: QuotaData | null;
+  analytics: BucketAnalytics | null;
+  error: string | null;
+  // When the data shown was fetched, if it is from the cache or a refresh has failed since
+  staleSince: number | null;
+  history: ChartHistory;
+  sessionStart: number | null;
+  // The running session so far, and finished ones oldest first
+  session: SessionSummary | null;
+  sessions: SessionSummary[];
+  projects: ProjectUsageSummary[];
+}
+
+/**
+ * Everything the dashboard renders. It is plain JSON so it can be posted to the webview
+ * and kept in the webview's own state across reloads.
+ */
+export interface DashboardState {
+  accounts: AccountDashboard[];
+  // Analytics tab shown until the user picks another one
+  focusBucket: QuotaBucketId;
+  thresholds: { warning: number; critical: number };
+  updatedAt: number;
+  // Label of the running simulation, whose data and times are simulated
+  simulation: string | null;
+}
+
+// Extension → webview; `focus` switches the active account's analytics tab
+export type ExtensionMessage =
+  | { type: 'update'; state: DashboardState }
+  | { type: 'focus'; bucket: QuotaBucketId };
+
+// Webview → extension; `acknowledgeSpike` marks a bucket's latest spike as expected
+export type WebviewMessage =
+  | { type: 'ready' }
+  | { type: 'refresh' }
+  | { type: 'acknowledgeSpike'; account: string; bucket: QuotaBucketId };
+
+export function isWebviewMessage(value: unknown): value is WebviewMessage {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const message = value as { type?: unknown; account?: unknown; bucket?: unknown };
+  if (message.type === 'acknowledgeSpike') {
+    return typeof message.account === 'string' && typeof message.bucket === 'string';
+  }
+  return message.type === 'ready' || message.type === 'refresh';
+}
@@ -0,0 +1,95 @@
+import { AlertPolicy, AlertOptions } from '../src/monitor/alertPolicy';
+import { QuotaData, BucketAnalytics, QuotaAnalytics } from '../src/api/types';
+
+describe('AlertPolicy', () => {
+    const options: AlertOptions = {
+        thresholds: [20],
+        bucketThresholds: { search: [50, 10] },
+        depletionHours: 1,
+        hysteresis: 5,
+        resetNotifications: 'afterAlert'
+    };
+    const cycle1 = '2030-01-01T05:00:00.000Z';
+    const cycle2 = '2030-01-01T10:00:00.000Z';
+
+    const data = (requests: number, renewsAt = cycle1, id = 'subscription'): QuotaData => ({
+        buckets: [{ id, label: id, limit: 100, requests, renewsAt, path: [id] }]
+    });
+    const analytics = (hoursUntilDepletion: number | null, id = 'subscription'): BucketAnalytics => ({
+        [id]: { hoursUntilDepletion } as QuotaAnalytics
+    });
+
+    test('should fire a threshold once and re-arm only past the hysteresis margin', () => {
+        const policy = new AlertPolicy(options);
+        expect(policy.evaluate(data(70), analytics(null))).toEqual([]);
+        expect(policy.evaluate(data(81), analytics(null)).map((a) => a.kind)).toEqual(['threshold']);
+        expect(policy.evaluate(data(82), analytics(null))).toEqual([]);
+        // Recovering to 22% remaining is within the 5 point margin
+        expect(policy.evaluate(data(78), analytics(null))).toEqual([]);
+        expect(policy.evaluate(data(81), analytics(null))).toEqual([]);
+        expect(policy.evaluate(data(70), analytics(null))).toEqual([]);
+        expect(policy.evaluate(data(85), analytics(null))).toHaveLength(1);
+    });
+
+    test('should use per-bucket thresholds and report only the lowest crossed', () => {
+        const policy = new AlertPolicy(options);
+        const alerts = policy.evaluate(data(95, cycle1, 'search'), analytics(null, 'search'));
+        expect(alerts).toEqual([expect.objectContaining({ kind: 'threshold', threshold: 10 })]);
+    });
+
+    test('should alert on predicted depletion with its own hysteresis', () => {
+        const policy = new AlertPolicy(options);
+        expect(policy.evaluate(data(50), analytics(0.5)).map((a) => a.kind)).toEqual(['depletion']);
+        expect(policy.evaluate(data(52), analytics(1.2))).toEqual([]);
+        expect(policy.evaluate(data(53), analytics(0.8))).toEqual([]);
+        expect(policy.evaluate(data(53), analytics(2))).toEqual([]);
+        expect(policy.evaluate(data(54), analytics(0.9))).toHaveLength(1);
+    });
+
+    test('should honour snooze and mute until the cycle renews, then report the reset', () => {
+        const policy = new AlertPolicy({ ...options, depletionHours: 0 });
+        const [alert] = policy.evaluate(data(85), analytics(null));
+        policy.mute(alert);
+        policy.evaluate(data(60), analytics(null));
+        expect(policy.evaluate(data(85), analytics(null))).toEqual([]);
+
+        const [renewed] = data(5, cycle2).buckets;
+        expect(policy.reset(renewed)).toEqual({ kind: 'reset', bucket: renewed });
+        expect(policy.reset(renewed)).toBeNull();
+        expect(policy.evaluate(data(5, cycle2), analytics(null))).toEqual([]);
+        expect(policy.evaluate(data(85, cycle2), analytics(null))).toHaveLength(1);
+
+        policy.snooze('subscription');
+        expect(policy.evaluate(data(95, cycle2), analytics(null))).toEqual([]);
+    });
+
+    test('should start a new cycle quietly when no reset was reported', () => {
+        const policy = new AlertPolicy({ ...options, depletionHours: 0, resetNotifications: 'always' });
+        expect(policy.evaluate(data(85), analytics(null))).toHaveLength(1);
+        expect(policy.evaluate(data(85, cycle2), analytics(null)).map((a) => a.kind)).toEqual(['threshold']);
+        expect(policy.reset(data(5, cycle2).buckets[0])).toBeNull();
+    });
+
+    test('should alert on a spike once per cooldown until acknowledged', () => {
+        const policy = new AlertPolicy({ ...options, depletionHours: 0 });
+        const spike = { since: 0, usedAtStart: 10, ratePerHour: 60, baselinePerHour: 5, hoursUntilExhaustion: 1.5 };
+        const spiking = { subscription: { hoursUntilDepletion: null, spike } as QuotaAnalytics };
+        const t0 = Date.parse('2030-01-01T01:00:00.000Z');
+        const minute = 60000;
+        expect(policy.evaluate(data(10), spiking, t0).map((a) => a.kind)).toEqual(['spike']);
+        expect(policy.evaluate(data(15), spiking, t0 + 10 * minute)).toEqual([]);
+        expect(policy.evaluate(data(40), spiking, t0 + 40 * minute)).toHaveLength(1);
+
+        policy.muteSpikes('subscription');
+        expect(policy.evaluate(data(60), spiking, t0 + 80 * minute)).toEqual([]);
+        policy.evaluate(data(5, cycle2), analytics(null), t0 + 90 * minute);
+        expect(policy.evaluate(data(10, cycle2), spiking, t0 + 100 * minute)).toHaveLength(1);
+    });
+
+    test('should restore persisted state without repeating alerts', () => {
+        const first = new AlertPolicy(options);
+        first.evaluate(data(85), analytics(null));
+        const restored = new AlertPolicy(options, JSON.parse(JSON.stringify(first.getState())));
+        expect(restored.evaluate(data(86), analytics(null))).toEqual([]);
+    });
+});
@@ -1,13 +1,17 @@
-import { AnalyticsEngine } from '../src/monitor/sessionTracker';
+import { AnalyticsEngine, isRenewal } from '../src/monitor/sessionTracker';
 import { QuotaData } from '../src/api/types';
+import { discoverBuckets } from '../src/api/buckets';
+
+const toData = (response: object): QuotaData => ({ buckets: discoverBuckets(response) });
 
 describe('AnalyticsEngine', () => {
     let engine: AnalyticsEngine;
-    const mockData: QuotaData = {
+    const mockResponse = {
         subscription: { limit: 1000, requests: 500, renewsAt: new Date(Date.now() + 3600000).toISOString() },
         search: { hourly: { limit: 100, requests: 20, renewsAt: new Date().toISOString() } },
         freeToolCalls: { limit: 500, requests: 100, renewsAt: new Date().toISOString() }
     };
+    const mockData = toData(mockResponse);
 
     beforeEach(() => {
         engine = new AnalyticsEngine();
@@ -15,47 +19,231 @@ describe('AnalyticsEngine', () => {
     });
 
     test('should calculate correct session usage', () => {
-        const newData: QuotaData = {
-            ...mockData,
-            subscription: { ...mockData.subscription, requests: 600 } // Used 10% more of the 1000 limit
-        };
+        const newData = toData({
+            ...mockResponse,
+            subscription: { ...mockResponse.subscription, requests: 600 } // Used 10% more of the 1000 limit
+        });
 
         const usage = engine.getSessionUsage(newData);
         expect(usage.subscription).toBe(10);
     });
 
+    test('should add up session usage across resets', () => {
+        const renewsAt = (hours: number) => new Date(Date.parse(mockResponse.search.hourly.renewsAt) + hours * 3600000).toISOString();
+        const searchAt = (timestamp: number, requests: number, hours: number) => ({
+            timestamp,
+            buckets: { search: { limit: 100, requests, renewsAt: renewsAt(hours) } }
+        });
+        engine.updateHistory(searchAt(1000, 50, 0));
+        // Reset, then a second reset that happens to land on a higher count
+        engine.updateHistory(searchAt(2000, 10, 1));
+        engine.updateHistory(searchAt(3000, 30, 1));
+        engine.updateHistory(searchAt(4000, 40, 2));
+
+        const data = toData({ ...mockResponse, search: { hourly: { limit: 100, requests: 45, renewsAt: renewsAt(2) } } });
+        expect(engine.getSessionTotals(data).search).toEqual({ percent: 105, requests: 105, resets: 2 });
+        expect(engine.getSessionUsage(data).search).toBe(105);
+    });
+
+    test('should count a reset of an idle bucket but not a lower count without one', () => {
+        const renewsAt = (hours: number) => new Date(Date.parse(mockResponse.search.hourly.renewsAt) + hours * 3600000).toISOString();
+        const searchAt = (timestamp: number, requests: number, hours: number) => ({
+            timestamp,
+            buckets: { search: { limit: 100, requests, renewsAt: renewsAt(hours) } }
+        });
+        engine.updateHistory(searchAt(1000, 0, 0));
+        engine.updateHistory(searchAt(2000, 0, 1));
+        engine.updateHistory(searchAt(3000, 10, 1));
+        engine.updateHistory(searchAt(4000, 8, 1));
+
+        const data = toData({ ...mockResponse, search: { hourly: { limit: 100, requests: 12, renewsAt: renewsAt(1) } } });
+        expect(engine.getSessionTotals(data).search).toEqual({ percent: 14, requests: 14, resets: 1 });
+        expect(engine.getResets('search')).toHaveLength(1);
+    });
+
+    test('should tell a renewal only by renewsAt moving past the tolerance', () => {
+        expect(isRenewal({ renewsAt: '2030-01-01T05:00:00Z' }, { renewsAt: '2030-01-01T05:00:30Z' })).toBe(false);
+        expect(isRenewal({ renewsAt: '2030-01-01T05:00:00Z' }, { renewsAt: '2030-01-01T10:00:00Z' })).toBe(true);
+        expect(isRenewal({ renewsAt: '2030-01-01T10:00:00Z' }, { renewsAt: '2030-01-01T05:00:00Z' })).toBe(false);
+    });
+
+    test('should continue counting a session shared by another window', () => {
+        const shared = engine.getSession()!;
+        const other = new AnalyticsEngine();
+        other.setSession(shared);
+        other.updateHistory({
+            timestamp: 1000,
+            buckets: { subscription: { ...mockResponse.subscription, requests: 550 } }
+        });
+
+        const data = toData({ ...mockResponse, subscription: { ...mockResponse.subscription, requests: 550 } });
+        const totals = other.getSessionTotals(data).subscription;
+        expect(totals).toMatchObject({ requests: 50, resets: 0 });
+        expect(totals.percent).toBeCloseTo(5);
+    });
+
     test('should determine trend correctly', async () => {
         const t0 = 1000000;
-        // Anchor the session tracker
-        engine['sessionTracker']! = {
-            sessionStartTime: t0,
-            initialSubscriptionQuota: 0.5,
-            initialToolCallsQuota: 0.2,
-            initialSearchQuota: 0.2,
-            history: [
-                { timestamp: t0, subscriptionUsed: 0.50 },
-                { timestamp: t0 + 300000, subscriptionUsed: 0.52 },
-                { timestamp: t0 + 600000, subscriptionUsed: 0.55 },
-                { timestamp: t0 + 900000, subscriptionUsed: 0.60 }
-            ]
-        };
+        const snapshot = (timestamp: number, subscriptionUsed: number) => ({
+            timestamp,
+            buckets: {
+                subscription: { ...mockResponse.subscription, requests: subscriptionUsed * 1000 },
+                toolCalls: mockResponse.freeToolCalls,
+                search: mockResponse.search.hourly
+            }
+        });
+        engine.loadHistory([
+            snapshot(t0, 0.50),
+            snapshot(t0 + 300000, 0.52),
+            snapshot(t0 + 600000, 0.55),
+            snapshot(t0 + 900000, 0.60)
+        ]);
 
         const analytics = engine.getAnalytics(mockData, t0 + 900000);
-        expect(analytics.trend).toBe('up');
+        expect(analytics.subscription.trend).toBe('up');
     });
 
     test('should calculate forecasted usage at reset', () => {
         const now = 1000 * 60 * 60 * 4; // 4 hours since epoch
         const resetAt = new Date(1000 * 60 * 60 * 5).toISOString(); // 5 hours since epoch
 
-        const data: QuotaData = {
-            ...mockData,
-            subscription: { ...mockData.subscription, requests: 500, limit: 1000, renewsAt: resetAt }
-        };
+        const data = toData({
+            ...mockResponse,
+            subscription: { ...mockResponse.subscription, requests: 500, limit: 1000, renewsAt: resetAt }
+        });
 
         const analytics = engine.getAnalytics(data, now);
         // Used 50% in 4 hours = 12.5%/hr. 
         // 1 hour left. Forecast = 50 + 12.5 = 62.5 -> 63
-        expect(analytics.projectedUsageAtReset).toBe(63);
+        expect(analytics.subscription.projectedUsageAtReset).toBe(63);
+    });
+
+    test('should compute analytics for each bucket with its own cycle', () => {
+        const now = 1000 * 60 * 60 * 4;
+        const data = toData({
+            subscription: { limit: 1000, requests: 100, renewsAt: new Date(now + 3600000).toISOString() },
+            // Half of the hourly search cycle has elapsed and 60% is used: 120%/h
+            search: { hourly: { limit: 100, requests: 60, renewsAt: new Date(now + 1800000).toISOString() } },
+            freeToolCalls: { limit: 500, requests: 0, renewsAt: new Date(now + 3600000).toISOString() }
+        });
+
+        const analytics = engine.getAnalytics(data, now);
+        expect(analytics.search.burnRatePerHour).toBeCloseTo(120);
+        expect(analytics.search.projectedUsageAtReset).toBe(100);
+        expect(analytics.search.hoursUntilDepletion).toBeCloseTo(1 / 3);
+        expect(analytics.toolCalls.burnRatePerHour).toBe(0);
+        expect(analytics.subscription.burnRatePerHour).toBeCloseTo(2.5);
+    });
+
+    test('should use the default model until a backtest can pick one', () => {
+        const analytics = engine.getAnalytics(mockData);
+        expect(analytics.subscription).toMatchObject({ forecastModel: 'hybrid', forecastSource: 'default' });
+
+        engine.setForecastModel('ewma');
+        expect(engine.getAnalytics(mockData).subscription).toMatchObject({
+            forecastModel: 'ewma',
+            forecastSource: 'configured'
+        });
+    });
+
+    test('should bound depletion and forecast by the spread of the burn rate', () => {
+        const t0 = 1000000;
+        const renewsAt = new Date(t0 + 6 * 3600000).toISOString();
+        // Search burns the same bursts at a fifth of the rate, so it is not exhausted at reset
+        const snapshot = (timestamp: number, requests: number) => ({
+            timestamp,
+            buckets: {
+                subscription: { limit: 1000, requests, renewsAt },
+                search: { limit: 100, requests: requests / 50, renewsAt }
+            }
+        });
+        engine.setForecastModel('linear');
+        engine.loadHistory([
+            snapshot(t0, 100),
+            snapshot(t0 + 900000, 200),
+            snapshot(t0 + 1800000, 200),
+            snapshot(t0 + 2700000, 300),
+            snapshot(t0 + 3600000, 300)
+        ]);
+
+        const data = toData({
+            subscription: { limit: 1000, requests: 300, renewsAt },
+            search: { hourly: { limit: 100, requests: 6, renewsAt } }
+        });
+        const analytics = engine.getAnalytics(data, t0 + 3600000);
+        const subscription = analytics.subscription;
+        expect(subscription.hoursUntilDepletionLow!).toBeLessThan(subscription.hoursUntilDepletion!);
+        expect(subscription.hoursUntilDepletionHigh!).toBeGreaterThan(subscription.hoursUntilDepletion!);
+        const search = analytics.search;
+        expect(search.projectedUsageAtResetLow!).toBeLessThan(search.projectedUsageAtReset!);
+        expect(search.projectedUsageAtResetHigh!).toBeGreaterThan(search.projectedUsageAtReset!);
+    });
+
+    test('should ignore samples from before the last reset', () => {
+        const t0 = 1000000;
+        const renewed = new Date(Date.parse(mockResponse.subscription.renewsAt) + 5 * 3600000).toISOString();
+        const snapshot = (timestamp: number, requests: number, renewsAt = mockResponse.subscription.renewsAt) => ({
+            timestamp,
+            buckets: {
+                subscription: { ...mockResponse.subscription, requests, renewsAt },
+                toolCalls: mockResponse.freeToolCalls,
+                search: mockResponse.search.hourly
+            }
+        });
+        engine.loadHistory([
+            snapshot(t0, 900),
+            snapshot(t0 + 300000, 950),
+            snapshot(t0 + 600000, 10, renewed),
+            snapshot(t0 + 900000, 20, renewed),
+            // A correction lowers usage without starting a new cycle
+            snapshot(t0 + 1200000, 15, renewed)
+        ]);
+
+        const analytics = engine.getAnalytics(mockData, t0 + 1200000);
+        expect(analytics.subscription.sessionHistory.map((h) => h.usage)).toEqual([1, 2, 2]);
+    });
+
+    describe('reset cycle learning', () => {
+        const HOUR = 3600000;
+        const snapshot = (timestamp: number, requests: number, renewsAt: number) => ({
+            timestamp,
+            buckets: {
+                subscription: { ...mockResponse.subscription },
+                toolCalls: mockResponse.freeToolCalls,
+                search: { limit: 100, requests, renewsAt: new Date(renewsAt).toISOString() }
+            }
+        });
+
+        test('should emit a reset event when renewsAt jumps past the tolerance', () => {
+            const events: string[] = [];
+            engine.onReset((event) => events.push(event.bucket));
+
+            engine.updateHistory(snapshot(0, 80, 2 * HOUR));
+            engine.updateHistory(snapshot(HOUR, 90, 2 * HOUR));
+            expect(events).toEqual([]);
+
+            engine.updateHistory(snapshot(2.1 * HOUR, 5, 4 * HOUR));
+            expect(events).toEqual(['search']);
+            expect(engine.getResets('search')[0]).toMatchObject({ requestsBefore: 90, requestsAfter: 5 });
+        });
+
+        test('should use the configured cycle until enough resets are observed', () => {
+            engine.setCycleOverrides({ search: 3 });
+            expect(engine.getCycleHours('search')).toEqual({ hours: 3, source: 'configured' });
+            expect(engine.getCycleHours('subscription')).toEqual({ hours: 5, source: 'configured' });
+        });
+
+        test('should learn the cycle length from persisted history', () => {
+            engine.setCycleOverrides({ search: 3 });
+            engine.loadHistory([
+                snapshot(0, 50, 2 * HOUR),
+                snapshot(2.1 * HOUR, 5, 4 * HOUR),
+                snapshot(4.1 * HOUR, 3, 6 * HOUR),
+                // A polling gap spanning three cycles
+                snapshot(10.1 * HOUR, 1, 12 * HOUR)
+            ]);
+
+            expect(engine.getCycleHours('search')).toEqual({ hours: 2, source: 'learned' });
+        });
     });
 });
@@ -0,0 +1,47 @@
+import { discoverBuckets, getShortLabel, getDefaultCycleHours } from '../src/api/buckets';
+import { AnalyticsEngine } from '../src/monitor/sessionTracker';
+
+describe('buckets', () => {
+    const renewsAt = '2030-01-01T00:00:00.000Z';
+
+    test('should keep legacy ids for known buckets in their usual order', () => {
+        const buckets = discoverBuckets({
+            search: { hourly: { limit: 100, requests: 20, renewsAt } },
+            freeToolCalls: { limit: 500, requests: 100, renewsAt },
+            subscription: { limit: 1000, requests: 500, renewsAt }
+        });
+        expect(buckets.map((b) => b.id)).toEqual(['subscription', 'toolCalls', 'search']);
+        expect(buckets.map((b) => b.label)).toEqual(['Subscription', 'Free Tool Calls', 'Search (Hourly)']);
+    });
+
+    test('should discover new buckets and tolerate missing ones', () => {
+        const buckets = discoverBuckets({
+            subscription: { limit: 1000, requests: 500, renewsAt },
+            search: { daily: { limit: 50, requests: 5, renewsAt } },
+            imageGen: { limit: 10, requests: 1, renewsAt },
+            meta: { version: 2, tags: [{ limit: 1, requests: 1, renewsAt }] }
+        });
+        expect(buckets.map((b) => b.id)).toEqual(['subscription', 'search.daily', 'imageGen']);
+
+        const daily = buckets[1];
+        expect(daily.label).toBe('Search (Daily)');
+        expect(getShortLabel(daily)).toBe('SD');
+        expect(getDefaultCycleHours(daily.id)).toBe(24);
+        expect(getDefaultCycleHours('imageGen')).toBe(24);
+        expect(getDefaultCycleHours('search')).toBe(1);
+    });
+
+    test('should compute analytics and session usage for discovered buckets', () => {
+        const engine = new AnalyticsEngine();
+        engine.initialize({ buckets: discoverBuckets({ search: { daily: { limit: 50, requests: 5, renewsAt } } }) }, true);
+
+        const data = {
+            buckets: discoverBuckets({
+                search: { daily: { limit: 50, requests: 10, renewsAt } },
+                imageGen: { limit: 10, requests: 1, renewsAt }
+            })
+        };
+        expect(Object.keys(engine.getAnalytics(data))).toEqual(['search.daily', 'imageGen']);
+        expect(engine.getSessionUsage(data)).toEqual({ 'search.daily': 10, imageGen: 0 });
+    });
+});
@@ -0,0 +1,30 @@
+import { buildChartHistory } from '../src/ui/webview/chartData';
+import { discoverBuckets } from '../src/api/buckets';
+import { QuotaSnapshot } from '../src/api/types';
+
+describe('buildChartHistory', () => {
+    const sample = (requests: number, renewsAt: string) => ({ limit: 100, requests, renewsAt });
+
+    test('should build one series per bucket and mark resets', () => {
+        const snapshots: QuotaSnapshot[] = [
+            { timestamp: 1000, buckets: { search: sample(40, '2030-01-01T01:00:00.000Z') } },
+            { timestamp: 2000, buckets: { search: sample(90, '2030-01-01T01:00:00.000Z') } },
+            { timestamp: 3000, buckets: { search: sample(5, '2030-01-01T02:00:00.000Z'), legacy: sample(10, '2030-01-02T00:00:00.000Z') } }
+        ];
+        const buckets = discoverBuckets({
+            subscription: sample(10, '2030-01-01T05:00:00.000Z'),
+            search: { hourly: sample(5, '2030-01-01T02:00:00.000Z') }
+        });
+
+        const history = buildChartHistory(snapshots, buckets);
+
+        // Subscription has no stored samples yet, unknown buckets keep their id as label
+        expect(history.series.map((s) => [s.bucket, s.label])).toEqual([
+            ['search', 'Search (Hourly)'],
+            ['legacy', 'legacy']
+        ]);
+        expect(history.series[0].points).toEqual([[1000, 40], [2000, 90], [3000, 5]]);
+        expect(history.resets).toHaveLength(1);
+        expect(history.resets[0]).toMatchObject({ bucket: 'search', timestamp: 3000 });
+    });
+});
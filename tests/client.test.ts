@@ -0,0 +1,95 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { QuotaClient } from '../src/api/client';
+import { AuthError, RateLimitError, SchemaError } from '../src/api/errors';
+
+describe('QuotaClient', () => {
+    const body = {
+        subscription: { limit: 1000, requests: 500, renewsAt: '2030-01-01T00:00:00.000Z' },
+        search: { hourly: { limit: 100, requests: 20, renewsAt: '2030-01-01T00:00:00.000Z' } },
+        freeToolCalls: { limit: 500, requests: 100, renewsAt: '2030-01-01T00:00:00.000Z' }
+    };
+    let server: http.Server;
+    let baseUrl: string;
+    let requests: Array<{ url?: string; authorization?: string }>;
+    let respond: (res: http.ServerResponse) => void;
+
+    beforeEach(async () => {
+        requests = [];
+        respond = (res) => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+        server = http.createServer((req, res) => {
+            requests.push({ url: req.url, authorization: req.headers.authorization });
+            respond(res);
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('should fetch from a configurable base URL with a path prefix', async () => {
+        const client = new QuotaClient('test-key', {
+            baseUrl: `${baseUrl}/mock`,
+            strictSSL: true,
+            noProxy: ['*'],
+            timeoutMs: 2000
+        });
+
+        const data = await client.fetchQuotaData();
+        expect(data.buckets.map((b) => b.id)).toEqual(['subscription', 'toolCalls', 'search']);
+        expect(data.buckets[0].requests).toBe(500);
+        expect(requests).toEqual([{ url: '/mock/v2/quotas', authorization: 'Bearer test-key' }]);
+    });
+
+    test('should send plain HTTP requests through the configured proxy', async () => {
+        // The test server acts as the proxy and receives the absolute request URI
+        const client = new QuotaClient('test-key', {
+            baseUrl: 'http://quota.invalid:9999',
+            proxy: baseUrl,
+            strictSSL: true,
+            timeoutMs: 2000
+        });
+
+        await client.fetchQuotaData();
+        expect(requests[0].url).toBe('http://quota.invalid:9999/v2/quotas');
+    });
+
+    describe('errors', () => {
+        const noRetry = { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 };
+        const createClient = () =>
+            new QuotaClient('test-key', { baseUrl, strictSSL: true, noProxy: ['*'], timeoutMs: 2000 }, noRetry);
+
+        test('should reject with an AuthError on 401', async () => {
+            respond = (res) => {
+                res.writeHead(401);
+                res.end();
+            };
+            await expect(createClient().fetchQuotaData()).rejects.toBeInstanceOf(AuthError);
+        });
+
+        test('should carry Retry-After on 429', async () => {
+            respond = (res) => {
+                res.writeHead(429, { 'Retry-After': '90' });
+                res.end();
+            };
+            await expect(createClient().fetchQuotaData()).rejects.toMatchObject({
+                kind: 'rateLimit',
+                retryAfterMs: 90000
+            });
+            await expect(createClient().fetchQuotaData()).rejects.toBeInstanceOf(RateLimitError);
+        });
+
+        test('should reject malformed responses with a SchemaError', async () => {
+            respond = (res) => {
+                res.writeHead(200);
+                res.end('{"subscription": {}}');
+            };
+            await expect(createClient().fetchQuotaData()).rejects.toBeInstanceOf(SchemaError);
+        });
+    });
+});
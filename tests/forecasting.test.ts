@@ -0,0 +1,90 @@
+import { FORECASTERS, ForecastInput, UsageCycle, backtest, selectForecaster } from '../src/monitor/forecasting';
+
+describe('forecasting', () => {
+    const hour = 3600000;
+    const step = 0.25 * hour;
+
+    // Usage rising by `rates[i]` percent per hour over each 15 minute interval
+    const samples = (rates: number[], start = 0) => {
+        const points = [{ timestamp: start, used: 0 }];
+        rates.forEach((rate, i) => {
+            points.push({ timestamp: start + (i + 1) * step, used: points[i].used + rate / 4 });
+        });
+        return points;
+    };
+    const input = (rates: number[], hoursUntilReset = 2): ForecastInput => {
+        const points = samples(rates);
+        const last = points[points.length - 1];
+        return {
+            samples: points,
+            now: last.timestamp,
+            usedPercent: last.used,
+            hoursElapsedInCycle: last.timestamp / hour,
+            hoursUntilReset
+        };
+    };
+
+    test('should agree on a steady burn rate with a collapsed range', () => {
+        for (const forecaster of Object.values(FORECASTERS)) {
+            const forecast = forecaster.forecast(input([8, 8, 8, 8, 8, 8]));
+            expect(forecast.ratePerHour).toBeCloseTo(8);
+            expect(forecast.low).toBeCloseTo(8);
+            expect(forecast.high).toBeCloseTo(8);
+        }
+    });
+
+    test('should fall back to the average since the cycle started without samples', () => {
+        const empty: ForecastInput = {
+            samples: [],
+            now: 2 * hour,
+            usedPercent: 20,
+            hoursElapsedInCycle: 2,
+            hoursUntilReset: 3
+        };
+        for (const forecaster of Object.values(FORECASTERS)) {
+            expect(forecaster.forecast(empty).ratePerHour).toBeCloseTo(10);
+        }
+    });
+
+    test('should follow a speeding up burn rate more closely with EWMA and Holt', () => {
+        const accelerating = input([0, 0, 2, 4, 8, 12, 16, 20]);
+        const linear = FORECASTERS.linear.forecast(accelerating).ratePerHour;
+        expect(FORECASTERS.ewma.forecast(accelerating).ratePerHour).toBeGreaterThan(linear);
+        expect(FORECASTERS.holt.forecast(accelerating).ratePerHour).toBeGreaterThan(
+            FORECASTERS.ewma.forecast(accelerating).ratePerHour
+        );
+    });
+
+    test('should widen the range for bursty usage and narrow it for longer horizons', () => {
+        const bursty = [0, 16, 0, 16, 0, 16, 0, 16];
+        const short = FORECASTERS.linear.forecast(input(bursty, 0.25));
+        const long = FORECASTERS.linear.forecast(input(bursty, 4));
+        expect(short.low).toBeLessThan(short.ratePerHour);
+        expect(short.high).toBeGreaterThan(short.ratePerHour);
+        expect(long.high - long.low).toBeLessThan(short.high - short.low);
+        expect(short.low).toBeGreaterThanOrEqual(0);
+    });
+
+    test('should score models by their error at the end of each cycle', () => {
+        const steady: UsageCycle = { samples: samples([8, 8, 8, 8, 8, 8]), renewsAt: 5 * hour, cycleHours: 5 };
+        const result = backtest(FORECASTERS.linear, [steady]);
+        expect(result.points).toBe(5);
+        expect(result.error).toBeCloseTo(0);
+    });
+
+    test('should only pick a model once there is enough history', () => {
+        const short: UsageCycle = { samples: samples([8, 8, 8]), renewsAt: 5 * hour, cycleHours: 5 };
+        expect(selectForecaster([short])).toBeNull();
+
+        // Usage that speeds up through every cycle favours the trend-following model
+        const rates = [0, 1, 2, 4, 8, 12, 16, 20, 24, 28];
+        const cycles: UsageCycle[] = [0, 1, 2].map((i) => ({
+            samples: samples(rates, i * 5 * hour),
+            renewsAt: (i + 1) * 5 * hour,
+            cycleHours: 5
+        }));
+        const best = selectForecaster(cycles);
+        expect(best?.model).toBe('holt');
+        expect(best!.error).toBeLessThan(backtest(FORECASTERS.hybrid, cycles).error);
+    });
+});
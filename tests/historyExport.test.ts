@@ -0,0 +1,79 @@
+import {
+    toHistoryRows,
+    formatHistory,
+    formatProjectUsage,
+    parseHistory,
+    detectHistoryFormat,
+    HistoryFormatError
+} from '../src/monitor/historyExport';
+import { QuotaSnapshot } from '../src/api/types';
+
+describe('history export', () => {
+    const renewsAt = '2030-01-01T05:00:00.000Z';
+    const snapshots: QuotaSnapshot[] = [
+        {
+            timestamp: Date.parse('2030-01-01T00:00:00.000Z'),
+            buckets: {
+                subscription: { limit: 1000, requests: 250, renewsAt },
+                'search.daily': { limit: 50, requests: 5, renewsAt }
+            }
+        },
+        {
+            timestamp: Date.parse('2030-01-02T00:00:00.000Z'),
+            buckets: { subscription: { limit: 1000, requests: 500, renewsAt } }
+        }
+    ];
+
+    test('should filter rows by date range and bucket', () => {
+        const rows = toHistoryRows(snapshots, {
+            from: Date.parse('2030-01-01T12:00:00.000Z'),
+            buckets: ['subscription']
+        });
+        expect(rows).toEqual([
+            {
+                timestamp: '2030-01-02T00:00:00.000Z',
+                bucket: 'subscription',
+                requests: 500,
+                limit: 1000,
+                percent: 50,
+                renewsAt
+            }
+        ]);
+    });
+
+    test('should round-trip CSV and JSON exports', () => {
+        const rows = toHistoryRows(snapshots);
+        const csv = formatHistory(rows, 'csv');
+        expect(csv.split('\n')[0]).toBe('timestamp,bucket,requests,limit,percent,renewsAt');
+        expect(parseHistory(csv, 'csv')).toEqual(snapshots);
+
+        const json = formatHistory(rows, 'json', 'Team');
+        expect(JSON.parse(json)).toMatchObject({ schema: 'cosmic-quota.history', version: 1, account: 'Team' });
+        expect(parseHistory(json, 'json')).toEqual(snapshots);
+    });
+
+    test('should read CSV columns by name and reject invalid files', () => {
+        const csv = 'bucket,timestamp,limit,requests,renewsAt,note\n"a,b",2030-01-01T00:00:00.000Z,10,1,' + renewsAt + ',x\n';
+        expect(parseHistory(csv, 'csv')[0].buckets['a,b']).toEqual({ limit: 10, requests: 1, renewsAt });
+
+        expect(() => parseHistory('bucket,requests\nx,1\n', 'csv')).toThrow(HistoryFormatError);
+        expect(() => parseHistory('{"schema":"cosmic-quota.history","version":99,"rows":[]}', 'json')).toThrow(/v99/);
+        expect(() => parseHistory('{"rows":[]}', 'json')).toThrow(HistoryFormatError);
+    });
+
+    test('should detect the format from the file name or content', () => {
+        expect(detectHistoryFormat('/tmp/usage.JSON', '')).toBe('json');
+        expect(detectHistoryFormat('/tmp/usage.csv', '{')).toBe('csv');
+        expect(detectHistoryFormat('/tmp/usage', ' {"schema": 1}')).toBe('json');
+    });
+
+    test('should export per-project usage that cannot be imported as history', () => {
+        const rows = [{ date: '2030-01-01', project: 'file:///work/api', name: 'api, v2', bucket: 'subscription', requests: 2.345 }];
+        expect(formatProjectUsage(rows, 'csv')).toBe(
+            'date,project,name,bucket,requests\n2030-01-01,file:///work/api,"api, v2",subscription,2.35\n'
+        );
+        const json = formatProjectUsage(rows, 'json', 'Team');
+        expect(JSON.parse(json)).toMatchObject({ schema: 'cosmic-quota.projects', account: 'Team' });
+        expect(() => parseHistory(json, 'json')).toThrow('per-project usage export');
+    });
+});
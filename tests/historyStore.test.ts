@@ -0,0 +1,98 @@
+import { HistoryStore, createSnapshot } from '../src/monitor/historyStore';
+import { discoverBuckets } from '../src/api/buckets';
+import { MemoryStorage } from '../src/services/memoryStorage';
+
+const MS_PER_MINUTE = 60000;
+const MS_PER_HOUR = 3600000;
+
+describe('HistoryStore', () => {
+    const options = { retentionDays: 2, downsampleAfterHours: 1, downsampleMinutes: 15 };
+    const data = {
+        buckets: discoverBuckets({
+        subscription: { limit: 1000, requests: 500, renewsAt: '2030-01-01T00:00:00.000Z' },
+        search: { hourly: { limit: 100, requests: 20, renewsAt: '2030-01-01T00:00:00.000Z' } },
+        freeToolCalls: { limit: 500, requests: 100, renewsAt: '2030-01-01T00:00:00.000Z' }
+        })
+    };
+    let memento: MemoryStorage;
+
+    beforeEach(() => {
+        memento = new MemoryStorage();
+    });
+
+    test('should record snapshots for all buckets', () => {
+        const snapshot = createSnapshot(data, 1000);
+        expect(snapshot.buckets.subscription.requests).toBe(500);
+        expect(snapshot.buckets.toolCalls.requests).toBe(100);
+        expect(snapshot.buckets.search.requests).toBe(20);
+    });
+
+    test('should persist snapshots across instances', async () => {
+        const store = new HistoryStore(memento, options);
+        await store.record(createSnapshot(data, 1000));
+        await store.record(createSnapshot(data, 2000));
+
+        const reloaded = new HistoryStore(memento, options);
+        expect(reloaded.getSnapshots().map((s) => s.timestamp)).toEqual([1000, 2000]);
+        expect(reloaded.getSnapshots(1500).map((s) => s.timestamp)).toEqual([2000]);
+    });
+
+    test('should keep snapshots recorded by another window in memory only', async () => {
+        const store = new HistoryStore(memento, options);
+        await store.record(createSnapshot(data, 1000));
+        await store.record(createSnapshot(data, 2000), false);
+
+        expect(store.getSnapshots().map((s) => s.timestamp)).toEqual([1000, 2000]);
+        const reloaded = new HistoryStore(memento, options);
+        expect(reloaded.getSnapshots().map((s) => s.timestamp)).toEqual([1000]);
+    });
+
+    test('should keep snapshots another window stored after this one opened', async () => {
+        const follower = new HistoryStore(memento, options);
+        const leader = new HistoryStore(memento, options);
+        // Stored by the leader, but never memento with the follower, e.g. while it was closing
+        await leader.record(createSnapshot(data, 1000));
+
+        // The follower takes over the lead and records the next refresh
+        await follower.record(createSnapshot(data, 2000));
+        expect(new HistoryStore(memento, options).getSnapshots().map((s) => s.timestamp)).toEqual([1000, 2000]);
+    });
+
+    test('should merge imported snapshots without overwriting recorded ones', async () => {
+        const store = new HistoryStore(memento, options);
+        const now = Date.now();
+        await store.record(createSnapshot(data, now - 1000));
+
+        const imported = createSnapshot(data, now - 1000);
+        imported.buckets.subscription = { ...imported.buckets.subscription, requests: 1 };
+        imported.buckets.extra = { limit: 10, requests: 2, renewsAt: '2030-01-01T00:00:00.000Z' };
+        const added = await store.merge([imported, createSnapshot(data, now - 2000)]);
+
+        expect(added).toBe(1);
+        const [older, merged] = store.getSnapshots();
+        expect(older.timestamp).toBe(now - 2000);
+        expect(merged.buckets.subscription.requests).toBe(500);
+        expect(merged.buckets.extra.requests).toBe(2);
+    });
+
+    test('should downsample old samples and drop expired ones', async () => {
+        const store = new HistoryStore(memento, options);
+        const now = 100 * MS_PER_HOUR;
+
+        // Outside retention
+        await store.record(createSnapshot(data, now - 72 * MS_PER_HOUR));
+        // Three samples in the same 15 minute slot, older than the downsample cutoff
+        await store.record(createSnapshot(data, now - 10 * MS_PER_HOUR));
+        await store.record(createSnapshot(data, now - 10 * MS_PER_HOUR + 5 * MS_PER_MINUTE));
+        await store.record(createSnapshot(data, now - 10 * MS_PER_HOUR + 10 * MS_PER_MINUTE));
+        // Recent samples are kept at full resolution
+        await store.record(createSnapshot(data, now - 5 * MS_PER_MINUTE));
+        await store.record(createSnapshot(data, now));
+
+        expect(store.getSnapshots().map((s) => s.timestamp)).toEqual([
+            now - 10 * MS_PER_HOUR + 10 * MS_PER_MINUTE,
+            now - 5 * MS_PER_MINUTE,
+            now
+        ]);
+    });
+});
@@ -0,0 +1,94 @@
+import { getPace, getWorkingMs, parseWorkingHours } from '../src/monitor/pacing';
+import { PacingOptions, QuotaSample } from '../src/api/types';
+
+describe('pacing', () => {
+    const hour = 3600000;
+    // Working hours are local, so the fixtures are built in local time: 2030-01-07 is a Monday
+    const monday = (h: number, m = 0) => new Date(2030, 0, 7, h, m).getTime();
+    const sample = (requests: number, renewsAt: number): QuotaSample => ({
+        limit: 100,
+        requests,
+        renewsAt: new Date(renewsAt).toISOString()
+    });
+    const options = (overrides: Partial<PacingOptions> = {}): PacingOptions => ({
+        targets: { subscription: 80 },
+        workingHours: null,
+        ...overrides
+    });
+
+    test('should parse working hours and reject invalid ranges', () => {
+        expect(parseWorkingHours('09:00-17:30', [1, 2, 3, 4, 5])).toEqual({
+            start: 540,
+            end: 1050,
+            days: [1, 2, 3, 4, 5]
+        });
+        expect(parseWorkingHours(' 9:00 - 18:00 ', [1])?.start).toBe(540);
+        expect(parseWorkingHours('', [1])).toBeNull();
+        expect(parseWorkingHours('18:00-09:00', [1])).toBeNull();
+        expect(parseWorkingHours('09:00-18:00', [7])).toBeNull();
+    });
+
+    test('should count working time on working days only', () => {
+        const hours = parseWorkingHours('09:00-17:00', [1, 2, 3, 4, 5])!;
+        expect(getWorkingMs(monday(8), monday(10), hours)).toBe(hour);
+        // Monday 16:00 to Tuesday 10:00 covers one hour on each day
+        expect(getWorkingMs(monday(16), monday(34), hours)).toBe(2 * hour);
+        // Saturday and Sunday do not count
+        expect(getWorkingMs(monday(-48), monday(0), hours)).toBe(0);
+    });
+
+    test('should not pace buckets without a target', () => {
+        expect(getPace('search', sample(10, monday(5)), 5, options(), monday(2))).toBeNull();
+    });
+
+    test('should compare usage with an even spread over the cycle', () => {
+        // Cycle 00:00-05:00 with 2 of 5 hours gone: the curve is at 32% of the 80% target
+        const ahead = getPace('subscription', sample(40, monday(5)), 5, options(), monday(2))!;
+        expect(ahead.expectedPercent).toBeCloseTo(32);
+        expect(ahead.deltaPercent).toBeCloseTo(8);
+        expect(ahead.status).toBe('ahead');
+        expect(ahead.remainingHours).toBeCloseTo(3);
+        expect(ahead.allowancePerHour).toBeCloseTo(40 / 3);
+
+        expect(getPace('subscription', sample(20, monday(5)), 5, options(), monday(2))!.status).toBe(
+            'behind'
+        );
+        expect(getPace('subscription', sample(33, monday(5)), 5, options(), monday(2))!.status).toBe(
+            'onPace'
+        );
+    });
+
+    test('should not allow more requests once the target is used up', () => {
+        const pace = getPace('subscription', sample(90, monday(5)), 5, options(), monday(4))!;
+        expect(pace.allowancePerHour).toBe(0);
+    });
+
+    test('should spread the target over working hours', () => {
+        const workingHours = parseWorkingHours('09:00-17:00', [1, 2, 3, 4, 5]);
+        // A 24h cycle ending Tuesday 00:00 with half the working day gone at 13:00
+        const pace = getPace(
+            'subscription',
+            sample(40, monday(24)),
+            24,
+            options({ workingHours }),
+            monday(13)
+        )!;
+        expect(pace.expectedPercent).toBeCloseTo(40);
+        expect(pace.status).toBe('onPace');
+        expect(pace.remainingHours).toBeCloseTo(4);
+        expect(pace.allowancePerHour).toBeCloseTo(10);
+    });
+
+    test('should fall back to the whole cycle when it has no working time', () => {
+        const workingHours = parseWorkingHours('09:00-17:00', [1, 2, 3, 4, 5]);
+        // A 5h cycle during the night
+        const pace = getPace(
+            'subscription',
+            sample(40, monday(5)),
+            5,
+            options({ workingHours }),
+            monday(2)
+        )!;
+        expect(pace.expectedPercent).toBeCloseTo(32);
+    });
+});
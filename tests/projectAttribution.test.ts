@@ -0,0 +1,87 @@
+import {
+    ProjectActivityTracker,
+    WindowActivity,
+    getFocusWeights,
+    getUsageDeltas,
+    splitUsage,
+    UNATTRIBUTED_PROJECT
+} from '../src/monitor/projectAttribution';
+import { QuotaSnapshot } from '../src/api/types';
+
+describe('project attribution', () => {
+    const minute = 60000;
+    const api = { id: 'file:///work/api', name: 'api' };
+    const web = { id: 'file:///work/web', name: 'web' };
+
+    test('should track focused time per project', () => {
+        const tracker = new ProjectActivityTracker('w1');
+        expect(tracker.update(api, true, 0)).toBe(true);
+        expect(tracker.update(api, true, minute)).toBe(false);
+        tracker.update(web, true, 10 * minute);
+        tracker.update(web, false, 15 * minute);
+        tracker.update(api, true, 20 * minute);
+
+        const activity = tracker.getActivity();
+        expect(activity.focusedMs).toEqual({ [api.id]: 10 * minute, [web.id]: 5 * minute });
+        expect(activity.current).toEqual({ project: api.id, since: 20 * minute });
+        expect(activity.names).toEqual({ [api.id]: 'api', [web.id]: 'web' });
+    });
+
+    test('should weigh projects by focused time in the interval across windows', () => {
+        const windows: WindowActivity[] = [
+            {
+                windowId: 'w1',
+                focusedMs: { [api.id]: 30 * minute },
+                names: { [api.id]: 'api' },
+                current: null,
+                lastFocused: { project: api.id, at: 0 }
+            },
+            {
+                windowId: 'w2',
+                focusedMs: {},
+                names: { [web.id]: 'web' },
+                current: { project: web.id, since: 57 * minute },
+                lastFocused: { project: web.id, at: 57 * minute }
+            }
+        ];
+        const previous = { w1: { [api.id]: 29 * minute } };
+
+        const focus = getFocusWeights(windows, previous, 5 * minute, 60 * minute);
+        expect(focus.weights).toEqual({ [api.id]: minute, [web.id]: 3 * minute });
+        expect(focus.totals.w2).toEqual({ [web.id]: 3 * minute });
+
+        // A window seen for the first time counts no longer than the interval
+        expect(getFocusWeights(windows, {}, 5 * minute, 60 * minute).weights[api.id]).toBe(5 * minute);
+    });
+
+    test('should credit the last focused project when no window was focused', () => {
+        const idle: WindowActivity[] = [
+            { windowId: 'w1', focusedMs: { [api.id]: minute }, names: {}, current: null, lastFocused: { project: api.id, at: 10 } },
+            { windowId: 'w2', focusedMs: { [web.id]: minute }, names: {}, current: null, lastFocused: { project: web.id, at: 20 } }
+        ];
+        const previous = { w1: { [api.id]: minute }, w2: { [web.id]: minute } };
+        expect(getFocusWeights(idle, previous, minute, 100).weights).toEqual({ [web.id]: 1 });
+    });
+
+    test('should compute request deltas across resets', () => {
+        const snapshot = (requests: number, renewsAt: string): QuotaSnapshot => ({
+            timestamp: 0,
+            buckets: { subscription: { limit: 100, requests, renewsAt } }
+        });
+        expect(getUsageDeltas(snapshot(10, '2030-01-01T05:00:00Z'), snapshot(14, '2030-01-01T05:00:00Z'))).toEqual({
+            subscription: 4
+        });
+        expect(getUsageDeltas(snapshot(90, '2030-01-01T05:00:00Z'), snapshot(3, '2030-01-01T10:00:00Z'))).toEqual({
+            subscription: 3
+        });
+        expect(getUsageDeltas(snapshot(10, '2030-01-01T05:00:00Z'), snapshot(10, '2030-01-01T05:00:00Z'))).toEqual({});
+    });
+
+    test('should split deltas in proportion to the weights', () => {
+        expect(splitUsage({ subscription: 8 }, { [api.id]: 1, [web.id]: 3 })).toEqual({
+            [api.id]: { subscription: 2 },
+            [web.id]: { subscription: 6 }
+        });
+        expect(splitUsage({ subscription: 8 }, {})).toEqual({ [UNATTRIBUTED_PROJECT.id]: { subscription: 8 } });
+    });
+});
@@ -0,0 +1,48 @@
+import { ProjectUsageStore, toDateKey } from '../src/monitor/projectUsageStore';
+import { MemoryStorage } from '../src/services/memoryStorage';
+
+describe('ProjectUsageStore', () => {
+    const day = 86400000;
+    const now = new Date(2030, 0, 10, 12).getTime();
+    const names = { api: 'api', web: 'web' };
+
+    test('should total usage per project per day and persist it', async () => {
+        const memento = new MemoryStorage();
+        const store = new ProjectUsageStore(memento, 30);
+        await store.add({ api: { subscription: 2 } }, names, now - day);
+        await store.add({ api: { subscription: 3 }, web: { subscription: 1, search: 4 } }, names, now);
+        await store.add({ '': { subscription: 1 } }, {}, now);
+
+        const reloaded = new ProjectUsageStore(memento, 30);
+        expect(reloaded.getSummaries(now)).toEqual([
+            { id: 'api', name: 'api', today: { subscription: 3 }, total: { subscription: 5 } },
+            { id: 'web', name: 'web', today: { subscription: 1, search: 4 }, total: { subscription: 1, search: 4 } },
+            { id: '', name: 'No workspace', today: { subscription: 1 }, total: { subscription: 1 } }
+        ]);
+        expect(reloaded.getRows({ from: now }).map((row) => [row.date, row.name, row.bucket])).toEqual([
+            [toDateKey(now), 'api', 'subscription'],
+            [toDateKey(now), 'No workspace', 'subscription'],
+            [toDateKey(now), 'web', 'subscription'],
+            [toDateKey(now), 'web', 'search']
+        ]);
+    });
+
+    test('should drop days past the retention window', async () => {
+        const store = new ProjectUsageStore(new MemoryStorage(), 2);
+        await store.add({ api: { subscription: 2 } }, names, now - 5 * day);
+        await store.add({ web: { subscription: 1 } }, names, now);
+        expect(store.getSummaries(now).map((p) => p.id)).toEqual(['web']);
+    });
+
+    test('should keep totals another window added after this one opened', async () => {
+        const memento = new MemoryStorage();
+        const follower = new ProjectUsageStore(memento, 30);
+        const leader = new ProjectUsageStore(memento, 30);
+        await leader.add({ api: { subscription: 2 } }, names, now);
+
+        // The follower takes over the lead and records the next change
+        await follower.add({ api: { subscription: 3 } }, names, now);
+        expect(new ProjectUsageStore(memento, 30).getSummaries(now)[0].total).toEqual({ subscription: 5 });
+        expect(leader.getSummaries(now)[0].total).toEqual({ subscription: 5 });
+    });
+});
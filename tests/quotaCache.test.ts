@@ -0,0 +1,22 @@
+import { QuotaCache } from '../src/services/quotaCache';
+import { MemoryStorage } from '../src/services/memoryStorage';
+
+describe('QuotaCache', () => {
+    const MINUTE = 60000;
+    const data = {
+        buckets: [{ id: 'subscription', label: 'Subscription', limit: 1000, requests: 400, renewsAt: '2030-01-01T05:00:00.000Z', path: ['subscription'] }]
+    };
+
+    test('should return the last fetch per account until it passes the age limit', async () => {
+        const memento = new MemoryStorage();
+        await new QuotaCache(memento, 'team').set(data, 1000);
+
+        const cache = new QuotaCache(memento, 'team');
+        expect(cache.get(60 * MINUTE, 1000 + 30 * MINUTE)).toEqual({ data, timestamp: 1000 });
+        expect(cache.get(60 * MINUTE, 1000 + 61 * MINUTE)).toBeUndefined();
+        expect(new QuotaCache(memento).get(60 * MINUTE, 1000)).toBeUndefined();
+
+        await cache.clear();
+        expect(cache.get(60 * MINUTE, 1000)).toBeUndefined();
+    });
+});
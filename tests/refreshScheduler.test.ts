@@ -0,0 +1,69 @@
+import { getNextRefresh, RefreshScheduleInput } from '../src/monitor/refreshScheduler';
+import { QuotaData, QuotaAnalytics } from '../src/api/types';
+
+describe('getNextRefresh', () => {
+    const now = Date.parse('2030-01-01T00:00:00.000Z');
+    const minute = 60000;
+
+    const data = (requests: number, renewsAt = '2030-01-01T05:00:00.000Z'): QuotaData => ({
+        buckets: [
+            { id: 'subscription', label: 'Subscription', limit: 100, requests, renewsAt, path: ['subscription'] }
+        ]
+    });
+    const input = (overrides: Partial<RefreshScheduleInput> = {}): RefreshScheduleInput => ({
+        now,
+        lastRefresh: now,
+        baseIntervalMs: 5 * minute,
+        adaptive: true,
+        data: data(20),
+        analytics: { subscription: { burnRatePerHour: 1 } as QuotaAnalytics },
+        thresholds: [70, 90],
+        focused: true,
+        idle: false,
+        retryNotBefore: 0,
+        ...overrides
+    });
+
+    test('should use the configured interval when nothing stands out', () => {
+        expect(getNextRefresh(input())).toEqual({ at: now + 5 * minute, reason: 'normal' });
+    });
+
+    test('should poll faster while burning fast or just below a threshold', () => {
+        const burning = input({ analytics: { subscription: { burnRatePerHour: 12 } as QuotaAnalytics } });
+        expect(getNextRefresh(burning)).toEqual({ at: now + 2.5 * minute, reason: 'busy' });
+        expect(getNextRefresh(input({ data: data(67) })).reason).toBe('busy');
+        expect(getNextRefresh(input({ data: data(72) })).reason).toBe('normal');
+        // Nothing left to watch once the quota is exhausted
+        expect(getNextRefresh(input({ data: data(100), analytics: {} })).reason).toBe('normal');
+    });
+
+    test('should back off while unfocused or idle', () => {
+        expect(getNextRefresh(input({ focused: false }))).toEqual({
+            at: now + 15 * minute,
+            reason: 'unfocused'
+        });
+        expect(getNextRefresh(input({ idle: true }))).toEqual({ at: now + 30 * minute, reason: 'idle' });
+        expect(getNextRefresh(input({ idle: true, baseIntervalMs: 30 * minute })).at).toBe(now + 60 * minute);
+    });
+
+    test('should fetch right after a reset even while idle', () => {
+        const next = getNextRefresh(input({ idle: true, data: data(50, '2030-01-01T00:10:00.000Z') }));
+        expect(next).toEqual({ at: now + 10 * minute + 5000, reason: 'reset' });
+    });
+
+    test('should not retry before a rate limit expires', () => {
+        const next = getNextRefresh(input({ retryNotBefore: now + 20 * minute }));
+        expect(next).toEqual({ at: now + 20 * minute, reason: 'rateLimit' });
+    });
+
+    test('should keep a fixed interval when adaptive polling is off', () => {
+        const next = getNextRefresh(
+            input({ adaptive: false, idle: true, data: data(50, '2030-01-01T00:01:00.000Z') })
+        );
+        expect(next).toEqual({ at: now + 5 * minute, reason: 'normal' });
+    });
+
+    test('should refresh immediately when a refresh is overdue', () => {
+        expect(getNextRefresh(input({ lastRefresh: now - 60 * minute })).at).toBe(now);
+    });
+});
@@ -0,0 +1,87 @@
+import { parseRetryAfter, getBackoffDelay, withRetry } from '../src/api/retry';
+import { AuthError, NetworkError, RateLimitError, ServerError } from '../src/api/errors';
+
+describe('retry', () => {
+    const options = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+    test('should parse Retry-After seconds and HTTP dates', () => {
+        const now = Date.parse('2030-01-01T00:00:00.000Z');
+        expect(parseRetryAfter('120', now)).toBe(120000);
+        expect(parseRetryAfter('Tue, 01 Jan 2030 00:00:30 GMT', now)).toBe(30000);
+        expect(parseRetryAfter('soon', now)).toBeUndefined();
+        expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    });
+
+    test('should grow the backoff ceiling exponentially up to the cap', () => {
+        expect(getBackoffDelay(0, options, () => 1)).toBe(1000);
+        expect(getBackoffDelay(3, options, () => 1)).toBe(8000);
+        expect(getBackoffDelay(10, options, () => 1)).toBe(30000);
+        expect(getBackoffDelay(3, options, () => 0.5)).toBe(4000);
+    });
+
+    test('should retry transient errors until success', async () => {
+        const waits: number[] = [];
+        let calls = 0;
+        const result = await withRetry(
+            async () => {
+                calls++;
+                if (calls < 3) {
+                    throw new ServerError(503, 'unavailable');
+                }
+                return 'ok';
+            },
+            options,
+            async (ms) => {
+                waits.push(ms);
+            }
+        );
+
+        expect(result).toBe('ok');
+        expect(waits).toHaveLength(2);
+    });
+
+    test('should not retry auth errors or client errors', async () => {
+        const wait = jest.fn(async () => undefined);
+        await expect(withRetry(() => Promise.reject(new AuthError(401)), options, wait)).rejects.toBeInstanceOf(AuthError);
+        await expect(withRetry(() => Promise.reject(new ServerError(404, '')), options, wait)).rejects.toBeInstanceOf(ServerError);
+        expect(wait).not.toHaveBeenCalled();
+    });
+
+    test('should honour Retry-After on rate limits', async () => {
+        const waits: number[] = [];
+        let calls = 0;
+        await withRetry(
+            async () => {
+                if (calls++ === 0) {
+                    throw new RateLimitError(20000);
+                }
+                return 'ok';
+            },
+            options,
+            async (ms) => {
+                waits.push(ms);
+            }
+        );
+        expect(waits[0]).toBeGreaterThanOrEqual(20000);
+
+        // Waiting longer than the backoff cap is left to the caller
+        await expect(
+            withRetry(() => Promise.reject(new RateLimitError(120000)), options, async () => undefined)
+        ).rejects.toBeInstanceOf(RateLimitError);
+    });
+
+    test('should give up after the last attempt', async () => {
+        let calls = 0;
+        await expect(
+            withRetry(
+                () => {
+                    calls++;
+                    return Promise.reject(new NetworkError('ECONNRESET'));
+                },
+                options,
+                async () => undefined
+            )
+        ).rejects.toBeInstanceOf(NetworkError);
+        expect(calls).toBe(3);
+    });
+});
@@ -0,0 +1,49 @@
+import { SessionStore } from '../src/monitor/sessionStore';
+import { MemoryStorage } from '../src/services/memoryStorage';
+
+const MS_PER_DAY = 86400000;
+
+describe('SessionStore', () => {
+    const summary = (name: string, end: number) => ({
+        name,
+        start: end - 3600000,
+        end,
+        buckets: { subscription: { used: 10, requests: 100, resets: 0, peakBurnRate: 20, limitHit: false } }
+    });
+    let memento: MemoryStorage;
+
+    beforeEach(() => {
+        memento = new MemoryStorage();
+    });
+
+    test('should keep sessions per account across restarts, oldest first', async () => {
+        const store = new SessionStore(memento, 30, 'team');
+        await store.add(summary('second', 2 * MS_PER_DAY));
+        await store.add(summary('first', MS_PER_DAY));
+
+        const reloaded = new SessionStore(memento, 30, 'team');
+        expect(reloaded.getSessions().map((session) => session.name)).toEqual(['first', 'second']);
+        expect(new SessionStore(memento, 30).getSessions()).toEqual([]);
+    });
+
+    test('should drop sessions older than the retention and clear on request', async () => {
+        const store = new SessionStore(memento, 30);
+        await store.add(summary('old', MS_PER_DAY));
+        await store.add(summary('recent', 40 * MS_PER_DAY));
+        expect(store.getSessions().map((session) => session.name)).toEqual(['recent']);
+
+        await store.clear();
+        expect(store.getSessions()).toEqual([]);
+        expect(memento.get('syntheticQuota.sessions')).toBeUndefined();
+    });
+
+    test('should keep sessions another window saved after this one opened', async () => {
+        const first = new SessionStore(memento, 30);
+        const second = new SessionStore(memento, 30);
+        await first.add(summary('first', MS_PER_DAY));
+        await second.add(summary('second', 2 * MS_PER_DAY));
+
+        expect(first.getSessions().map((session) => session.name)).toEqual(['first', 'second']);
+        expect(new SessionStore(memento, 30).getSessions()).toHaveLength(2);
+    });
+});
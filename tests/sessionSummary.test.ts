@@ -0,0 +1,53 @@
+import { summarizeSession } from '../src/monitor/sessionSummary';
+
+describe('summarizeSession', () => {
+    const MINUTE = 60000;
+    const start = Date.parse('2030-01-01T09:00:00Z');
+    const renewsAt = new Date(start + 5 * 60 * MINUTE).toISOString();
+    const snapshot = (minutes: number, requests: number, limit = 1000) => ({
+        timestamp: start + minutes * MINUTE,
+        buckets: { subscription: { limit, requests, renewsAt } }
+    });
+    const session = (percent: number, requests: number, resets: number) => ({
+        sessionStartTime: start,
+        initialUsage: { subscription: 0.1 },
+        name: 'refactor auth',
+        counted: { subscription: { percent, requests, resets, last: snapshot(0, 0).buckets.subscription } }
+    });
+
+    test('should report the counted usage and the peak rate over ten minutes', () => {
+        const summary = summarizeSession(
+            session(15, 150, 0),
+            [snapshot(-30, 50), snapshot(10, 120), snapshot(20, 220), snapshot(30, 240), snapshot(40, 250)],
+            start + 45 * MINUTE
+        );
+
+        expect(summary).toEqual({
+            name: 'refactor auth',
+            start,
+            end: start + 45 * MINUTE,
+            buckets: { subscription: { used: 15, requests: 150, resets: 0, peakBurnRate: 60, limitHit: false } }
+        });
+    });
+
+    test('should flag a bucket that reached its limit and skip stretches with a reset', () => {
+        const summary = summarizeSession(
+            session(96, 960, 1),
+            [snapshot(5, 1000), snapshot(15, 10), snapshot(25, 60)],
+            start + 30 * MINUTE
+        );
+
+        expect(summary.buckets.subscription).toEqual({ used: 96, requests: 960, resets: 1, peakBurnRate: 30, limitHit: true });
+    });
+
+    test('should fall back to the starting point for sessions without counted usage', () => {
+        const summary = summarizeSession(
+            { sessionStartTime: start, initialUsage: { subscription: 0.1 } },
+            [snapshot(3, 110)],
+            start + 3 * MINUTE
+        );
+
+        expect(summary.name).toBeNull();
+        expect(summary.buckets.subscription).toEqual({ used: 1, requests: 10, resets: 0, peakBurnRate: 20, limitHit: false });
+    });
+});
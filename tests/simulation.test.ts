@@ -0,0 +1,109 @@
+import {
+    PlaybackClock,
+    SimulatedQuotaProvider,
+    createScenario,
+    createTracePlayback
+} from '../src/api/simulation';
+import { toQuotaData } from '../src/api/buckets';
+
+describe('Simulation', () => {
+    const HOUR = 3600000;
+    const start = Date.parse('2030-01-01T00:00:00Z');
+
+    const requestsOf = (script: (now: number) => { buckets: { id: string; requests: number }[] }, now: number, id: string) =>
+        script(now).buckets.find((bucket) => bucket.id === id)?.requests;
+
+    test('should run the playback clock faster than real time and keep it steady on a speed change', () => {
+        let real = 1000;
+        const clock = new PlaybackClock(start, 60, () => real);
+        expect(clock.now()).toBe(start);
+
+        real += 60000;
+        expect(clock.now()).toBe(start + HOUR);
+
+        clock.setSpeed(1);
+        expect(clock.now()).toBe(start + HOUR);
+        real += 60000;
+        expect(clock.now()).toBe(start + HOUR + 60000);
+        expect(clock.getSpeed()).toBe(1);
+    });
+
+    test('should answer fetches with the script at the playback time', async () => {
+        let real = 0;
+        const clock = new PlaybackClock(start, 60, () => real);
+        const provider = new SimulatedQuotaProvider(createScenario('steady', start), clock);
+
+        const first = await provider.fetchQuotaData();
+        real += 60000;
+        const second = await provider.fetchQuotaData();
+
+        expect(first.buckets.map((bucket) => bucket.id)).toEqual(['subscription', 'toolCalls', 'search']);
+        expect(second.buckets[0].requests).toBeGreaterThan(first.buckets[0].requests);
+    });
+
+    test('should burn a steady scenario at its scripted rate and renew at the end of the cycle', () => {
+        const script = createScenario('steady', start);
+
+        // Half an hour into a 5h cycle at 25%/h
+        expect(requestsOf(script, start, 'subscription')).toBe(125);
+        expect(script(start).buckets[0].renewsAt).toBe(new Date(start + 4.5 * HOUR).toISOString());
+        expect(requestsOf(script, start + HOUR, 'subscription')).toBe(375);
+        // Capped at the limit until the reset
+        expect(requestsOf(script, start + 4.4 * HOUR, 'subscription')).toBe(1000);
+        expect(requestsOf(script, start + 4.6 * HOUR, 'subscription')).toBeLessThan(50);
+    });
+
+    test('should burst usage in the spike scenario after a quiet hour', () => {
+        const script = createScenario('spike', start);
+        const before = requestsOf(script, start + HOUR, 'subscription')!;
+        const after = requestsOf(script, start + (4 / 3) * HOUR, 'subscription')!;
+
+        expect(before).toBe(80);
+        expect(after - before).toBeGreaterThanOrEqual(495);
+        expect(after - before).toBeLessThanOrEqual(505);
+    });
+
+    test('should bring every bucket to a reset within minutes in the reset scenario', () => {
+        const script = createScenario('reset', start);
+        for (const bucket of script(start).buckets) {
+            expect(new Date(bucket.renewsAt).getTime() - start).toBeLessThanOrEqual(HOUR / 2);
+        }
+        expect(requestsOf(script, start + HOUR / 2, 'subscription')).toBeLessThan(100);
+    });
+
+    test('should replay a trace from the start time and hold its last snapshot', () => {
+        const recorded = Date.parse('2029-06-01T10:00:00Z');
+        const sample = (requests: number) => ({
+            subscription: { limit: 1000, requests, renewsAt: new Date(recorded + 2 * HOUR).toISOString() }
+        });
+        const script = createTracePlayback(
+            [
+                { timestamp: recorded + HOUR, buckets: sample(600) },
+                { timestamp: recorded, buckets: sample(100) }
+            ],
+            start
+        );
+
+        expect(requestsOf(script, start, 'subscription')).toBe(100);
+        expect(script(start).buckets[0].renewsAt).toBe(new Date(start + 2 * HOUR).toISOString());
+        expect(requestsOf(script, start + HOUR - 1, 'subscription')).toBe(100);
+        expect(requestsOf(script, start + HOUR, 'subscription')).toBe(600);
+        expect(requestsOf(script, start + 10 * HOUR, 'subscription')).toBe(600);
+    });
+
+    test('should reject an empty trace', () => {
+        expect(() => createTracePlayback([], start)).toThrow('no snapshots');
+    });
+
+    test('should rebuild known and discovered buckets from samples', () => {
+        const data = toQuotaData({
+            toolCalls: { limit: 500, requests: 10, renewsAt: '2030-01-02T00:00:00.000Z' },
+            'search.daily': { limit: 50, requests: 5, renewsAt: '2030-01-02T00:00:00.000Z' }
+        });
+
+        expect(data.buckets.map((bucket) => [bucket.id, bucket.label])).toEqual([
+            ['toolCalls', 'Free Tool Calls'],
+            ['search.daily', expect.any(String)]
+        ]);
+    });
+});
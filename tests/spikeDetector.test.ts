@@ -0,0 +1,46 @@
+import { detectSpike } from '../src/monitor/spikeDetector';
+
+describe('detectSpike', () => {
+    const MINUTE = 60000;
+    // Steady 5%/h over two hours, sampled every 5 minutes
+    const steady = Array.from({ length: 25 }, (_, i) => ({ timestamp: i * 5 * MINUTE, used: 10 + (i * 5) / 12 }));
+    const end = steady[steady.length - 1];
+    const withBurst = (points: number) => [
+        ...steady,
+        ...Array.from({ length: points }, (_, i) => ({ timestamp: end.timestamp + (i + 1) * 5 * MINUTE, used: end.used + (i + 1) * 5 }))
+    ];
+
+    test('should flag a jump far above the baseline rate', () => {
+        const samples = withBurst(2);
+        const spike = detectSpike(samples, 5, 'medium', samples[samples.length - 1].timestamp);
+        expect(spike).not.toBeNull();
+        expect(spike!.ratePerHour).toBeCloseTo(60);
+        expect(spike!.baselinePerHour).toBeCloseTo(5);
+        expect(spike!.since).toBe(end.timestamp);
+        expect(spike!.hoursUntilExhaustion).toBeCloseTo((100 - end.used - 10) / 60);
+    });
+
+    test('should not flag steady usage', () => {
+        expect(detectSpike(steady, 5, 'high', end.timestamp)).toBeNull();
+    });
+
+    test('should need a larger jump at lower sensitivity', () => {
+        const samples = withBurst(1);
+        const now = samples[samples.length - 1].timestamp;
+        expect(detectSpike(samples, 5, 'high', now)).not.toBeNull();
+        // 60%/h is 3 cycles' worth per 5h cycle, short of the 4 that low sensitivity asks for
+        expect(detectSpike(samples, 5, 'low', now)).toBeNull();
+        expect(detectSpike(samples, 5, 'off', now)).toBeNull();
+    });
+
+    test('should hold short cycles to the same share of their quota', () => {
+        const samples = withBurst(2);
+        // 60%/h barely uses an hourly quota
+        expect(detectSpike(samples, 1, 'medium', samples[samples.length - 1].timestamp)).toBeNull();
+    });
+
+    test('should ignore samples that are no longer current', () => {
+        const samples = withBurst(2);
+        expect(detectSpike(samples, 5, 'medium', samples[samples.length - 1].timestamp + 2 * 60 * MINUTE)).toBeNull();
+    });
+});
@@ -0,0 +1,73 @@
+import { SpikeStore } from '../src/monitor/spikeStore';
+import { MemoryStorage } from '../src/services/memoryStorage';
+
+const MS_PER_DAY = 86400000;
+
+describe('SpikeStore', () => {
+    const spike = (ratePerHour: number) => ({
+        since: 1000,
+        usedAtStart: 20,
+        ratePerHour,
+        baselinePerHour: 4,
+        hoursUntilExhaustion: 1
+    });
+    let memento: MemoryStorage;
+
+    beforeEach(() => {
+        memento = new MemoryStorage();
+    });
+
+    test('should open, extend and close one event per spike', async () => {
+        const store = new SpikeStore(memento, 30);
+        expect(await store.update('subscription', spike(40), 25, 2000)).toMatchObject({ startedAt: 1000 });
+        expect(await store.update('subscription', spike(60), 30, 3000)).toBeNull();
+        await store.update('subscription', null, 32, 4000);
+
+        expect(store.getEvents()).toEqual([
+            {
+                bucket: 'subscription',
+                startedAt: 1000,
+                endedAt: 4000,
+                peakRatePerHour: 60,
+                baselinePerHour: 4,
+                usedAtStart: 20,
+                usedAtEnd: 32,
+                expected: false
+            }
+        ]);
+        expect(await store.update('subscription', null, 33, 5000)).toBeNull();
+    });
+
+    test('should mark the latest spike as expected and persist it per account', async () => {
+        const store = new SpikeStore(memento, 30, 'team');
+        await store.update('search', spike(200), 50, 2000);
+        await store.acknowledge('search');
+
+        const restored = new SpikeStore(memento, 30, 'team');
+        expect(restored.getEvents()[0]).toMatchObject({ bucket: 'search', expected: true });
+        expect(new SpikeStore(memento, 30).getEvents()).toEqual([]);
+    });
+
+    test('should keep a spike another window marked as expected', async () => {
+        const leader = new SpikeStore(memento, 30);
+        const other = new SpikeStore(memento, 30);
+        await leader.update('subscription', spike(40), 25, 2000);
+
+        await other.acknowledge('subscription');
+        await leader.update('subscription', spike(60), 30, 3000);
+
+        expect(new SpikeStore(memento, 30).getEvents()).toEqual([
+            expect.objectContaining({ peakRatePerHour: 60, usedAtEnd: 30, expected: true })
+        ]);
+    });
+
+    test('should drop events older than the retention', async () => {
+        const store = new SpikeStore(memento, 1);
+        await store.update('subscription', spike(40), 25, 2000);
+        await store.update('subscription', null, 30, 3000);
+        await store.update('search', spike(40), 25, 2 * MS_PER_DAY);
+
+        expect(store.getEvents().map((event) => event.bucket)).toEqual(['search']);
+        expect(store.getEvents(3 * MS_PER_DAY)).toHaveLength(1);
+    });
+});
@@ -0,0 +1,71 @@
+import {
+    parseTemplate,
+    renderTemplate,
+    TemplateContext,
+    TemplateError,
+    TemplateField,
+    TemplateValue,
+    TEMPLATE_FIELDS
+} from '../src/ui/statusBarTemplate';
+
+describe('status bar templates', () => {
+    const values = (overrides: Partial<Record<TemplateField, TemplateValue>>) => {
+        const bucket = {} as Record<TemplateField, TemplateValue>;
+        TEMPLATE_FIELDS.forEach((field) => (bucket[field] = { text: '', value: null }));
+        return { ...bucket, ...overrides };
+    };
+    const context: TemplateContext = {
+        globals: { icon: '$(check)', account: 'Team' },
+        buckets: {
+            subscription: values({
+                percent: { text: '45', value: 45 },
+                session: { text: '3', value: 3 },
+                countdown: { text: '2h 5m', value: 2.08 }
+            }),
+            'search.daily': values({
+                percent: { text: '85', value: 85 },
+                eta: { text: '40m', value: 0.67 }
+            }),
+            search: values({ percent: { text: '10', value: 10 }, session: { text: '0', value: 0 } })
+        }
+    };
+    const render = (template: string) => renderTemplate(parseTemplate(template), context);
+
+    test('should substitute globals and bucket fields', () => {
+        expect(render('{icon} {subscription.percent}% (+{subscription.session}) · {account}')).toBe(
+            '$(check) 45% (+3) · Team'
+        );
+    });
+
+    test('should resolve bucket ids containing dots', () => {
+        expect(render('D:{search.daily.percent}%')).toBe('D:85%');
+    });
+
+    test('should show conditional sections only while their condition holds', () => {
+        expect(render('{subscription.percent}%{?search.daily.percent >= 80} D:{search.daily.eta}{/}')).toBe(
+            '45% D:40m'
+        );
+        expect(render('{subscription.percent}%{?subscription.percent >= 80} !{/} end')).toBe('45% end');
+        expect(render('{?subscription.session}+{subscription.session}{/}{?search.session}+x{/}')).toBe('+3');
+        expect(render('{?subscription.eta}{subscription.eta} left{/}')).toBe('');
+    });
+
+    test('should support nested sections', () => {
+        expect(render('{?search.daily.percent > 50}D{?search.daily.eta} {search.daily.eta}{/}{/}')).toBe(
+            'D 40m'
+        );
+    });
+
+    test('should reject malformed templates', () => {
+        expect(() => parseTemplate('{subscription.percentage}')).toThrow(TemplateError);
+        expect(() => parseTemplate('{percent}')).toThrow(TemplateError);
+        expect(() => parseTemplate('{?subscription.percent > high}x{/}')).toThrow(TemplateError);
+        expect(() => parseTemplate('{?subscription.percent > 5}x')).toThrow('missing its closing');
+        expect(() => parseTemplate('x{/}')).toThrow(TemplateError);
+        expect(() => parseTemplate('{subscription.percent')).toThrow('Unbalanced');
+    });
+
+    test('should report buckets the API does not provide', () => {
+        expect(() => render('{weekly.percent}')).toThrow('Unknown bucket "weekly"');
+    });
+});
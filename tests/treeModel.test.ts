@@ -0,0 +1,123 @@
+import { buildQuotaTree, TreeAccount } from '../src/ui/tree/treeModel';
+import { QuotaAnalytics } from '../src/api/types';
+
+describe('buildQuotaTree', () => {
+    const now = Date.parse('2030-01-01T12:00:00.000Z');
+    const options = { warningThreshold: 70, criticalThreshold: 90, now };
+    const account = (overrides: Partial<TreeAccount> = {}): TreeAccount => ({
+        id: 'default',
+        name: 'Personal',
+        data: {
+            buckets: [
+                { id: 'subscription', label: 'Subscription', limit: 1000, requests: 950, renewsAt: new Date(now + 90 * 60000).toISOString(), path: [] },
+                { id: 'search', label: 'Search', limit: 100, requests: 10, renewsAt: new Date(now + 30 * 60000).toISOString(), path: [] }
+            ]
+        },
+        analytics: null,
+        error: null,
+        staleSince: null,
+        resets: [],
+        session: null,
+        sessions: [],
+        ...overrides
+    });
+
+    test('should list every bucket with its figures as children', () => {
+        const [subscription, search, resets] = buildQuotaTree([account()], options);
+        expect(subscription).toMatchObject({
+            label: 'Subscription',
+            description: '95% · 50 left · 1h 30m',
+            icon: 'error',
+            bucket: 'subscription'
+        });
+        expect(subscription.children!.map((node) => [node.label, node.copyValue])).toEqual([
+            ['Used', '95.0%'],
+            ['Remaining', '50'],
+            ['Resets', 'in 1h 30m']
+        ]);
+        expect(search).toMatchObject({ icon: 'check', description: '10% · 90 left · 30m' });
+        expect(resets).toMatchObject({ label: 'Recent Resets', description: 'none yet', children: [] });
+    });
+
+    test('should add analytics, the session and the latest resets first', () => {
+        const stats = {
+            burnRatePerHour: 12.5,
+            trend: 'up',
+            hoursUntilDepletion: 0.5,
+            projectedUsageAtReset: 100,
+            pace: null,
+            spike: null
+        } as unknown as QuotaAnalytics;
+        const reset = (timestamp: number) => ({
+            bucket: 'search',
+            timestamp,
+            previousRenewsAt: '',
+            renewsAt: new Date(timestamp + 3600000).toISOString(),
+            requestsBefore: 80,
+            requestsAfter: 2
+        });
+        const nodes = buildQuotaTree(
+            [
+                account({
+                    analytics: { subscription: stats },
+                    session: {
+                        name: 'refactor auth',
+                        start: now - 3600000,
+                        usage: { subscription: { percent: 4, requests: 40, resets: 0 }, search: { percent: 12, requests: 12, resets: 1 } }
+                    },
+                    resets: [reset(now - 7200000), reset(now - 3600000)]
+                })
+            ],
+            options
+        );
+
+        expect(nodes[0].children!.slice(3).map((node) => node.copyValue)).toEqual(['12.5%/h', 'up', 'in 30m', '100%']);
+        expect(nodes[2].description).toMatch(/^refactor auth · since \d{2}:\d{2}$/);
+        expect(nodes[2].children!.map((node) => node.description)).toEqual(['+4.0% (40 requests)', '+12.0% (12 requests, 1 reset)']);
+        expect(nodes[3].children!.map((node) => node.id)).toEqual([
+            `default/resets/search/${now - 3600000}`,
+            `default/resets/search/${now - 7200000}`
+        ]);
+    });
+
+    test('should group by account when there is more than one', () => {
+        const nodes = buildQuotaTree([account(), account({ id: 'team', name: 'Team', data: null, error: 'Invalid API key' })], options);
+        expect(nodes.map((node) => node.label)).toEqual(['Personal', 'Team']);
+        expect(nodes[1].children).toEqual([expect.objectContaining({ label: 'Refresh failed', copyValue: 'Invalid API key' })]);
+    });
+
+    test('should mark stale data with the time it was fetched', () => {
+        const [stale, subscription] = buildQuotaTree([account({ error: 'Request timed out', staleSince: now - 20 * 60000 })], options);
+        expect(stale).toMatchObject({ label: 'Refresh failed', tooltip: 'Request timed out' });
+        expect(stale.description).toMatch(/^stale since \d{2}:\d{2}$/);
+        expect(subscription.label).toBe('Subscription');
+    });
+
+    test('should put a marker on top while simulating', () => {
+        const [marker, subscription] = buildQuotaTree([account()], { ...options, simulation: { label: 'Usage Spike', speed: 60 } });
+        expect(marker).toMatchObject({ label: 'SIMULATED', description: 'Usage Spike · 60× speed', icon: 'beaker' });
+        expect(subscription.label).toBe('Subscription');
+    });
+
+    test('should list past sessions newest first with their usage per bucket', () => {
+        const summary = (name: string | null, start: number, limitHit: boolean) => ({
+            name,
+            start,
+            end: start + 90 * 60000,
+            buckets: { subscription: { used: 12.5, requests: 125, resets: 1, peakBurnRate: 30, limitHit } }
+        });
+        const nodes = buildQuotaTree(
+            [account({ sessions: [summary('refactor auth', now - 5 * 3600000, true), summary(null, now - 3600000, false)] })],
+            options
+        );
+        const past = nodes.find((node) => node.label === 'Past Sessions')!;
+        expect(past.children!.map((node) => [node.label, node.icon])).toEqual([
+            ['Unnamed session', 'watch'],
+            ['refactor auth', 'error']
+        ]);
+        expect(past.children![1].description).toMatch(/ · 1h 30m$/);
+        expect(past.children![1].children).toEqual([
+            expect.objectContaining({ label: 'Subscription', description: '+12.5% (125 requests, 1 reset, peak 30.0%/h, limit hit)' })
+        ]);
+    });
+});
@@ -0,0 +1,147 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WindowCoordinator, SharedQuota } from '../src/services/windowCoordinator';
+
+describe('WindowCoordinator', () => {
+    let directory: string;
+    let windows: WindowCoordinator[];
+
+    const open = async (options: { isProcessAlive?: (pid: number) => boolean } = {}) => {
+        // A long heartbeat keeps the timer out of the way; tests drive poll() themselves
+        const coordinator = new WindowCoordinator(directory, { heartbeatMs: 3600000, ...options });
+        windows.push(coordinator);
+        await coordinator.start();
+        return coordinator;
+    };
+
+    const shared = (timestamp: number): SharedQuota => ({
+        accountId: 'default',
+        data: {
+            buckets: [
+                {
+                    id: 'subscription',
+                    label: 'Subscription',
+                    limit: 100,
+                    requests: 40,
+                    renewsAt: '2030-01-01T05:00:00.000Z',
+                    path: ['subscription']
+                }
+            ]
+        },
+        timestamp,
+        session: { sessionStartTime: 1000, initialUsage: { subscription: 0.3 } }
+    });
+
+    beforeEach(() => {
+        directory = fs.mkdtempSync(path.join(os.tmpdir(), 'cosmic-quota-'));
+        windows = [];
+    });
+
+    afterEach(() => {
+        windows.forEach((w) => w.dispose());
+        fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    test('should elect exactly one leader', async () => {
+        const first = await open();
+        const second = await open();
+        await first.poll();
+        await second.poll();
+        expect(first.isLeader()).toBe(true);
+        expect(first.isFirstWindow()).toBe(true);
+        expect(second.isLeader()).toBe(false);
+        expect(second.isFirstWindow()).toBe(false);
+    });
+
+    test('should start the heartbeat only once when started again', async () => {
+        const setInterval = jest.spyOn(global, 'setInterval');
+        try {
+            const coordinator = await open();
+            await coordinator.start();
+            expect(setInterval).toHaveBeenCalledTimes(1);
+            expect(coordinator.isFirstWindow()).toBe(true);
+        } finally {
+            setInterval.mockRestore();
+        }
+    });
+
+    test('should deliver published data to the other windows once', async () => {
+        const leader = await open();
+        const follower = await open();
+        const received: SharedQuota[] = [];
+        follower.onDidReceiveQuota((quota) => received.push(quota));
+        leader.onDidReceiveQuota((quota) => received.push(quota));
+
+        await leader.publish(shared(2000));
+        await follower.poll();
+        await follower.poll();
+        await leader.poll();
+        expect(received).toEqual([shared(2000)]);
+        expect(await follower.read('default')).toEqual(shared(2000));
+
+        await leader.publish(shared(1500));
+        await follower.poll();
+        expect(received).toHaveLength(1);
+    });
+
+    test('should hand leadership over when the leader closes', async () => {
+        const leader = await open();
+        const follower = await open();
+        const changes: boolean[] = [];
+        follower.onDidChangeLeadership((isLeader) => changes.push(isLeader));
+
+        leader.dispose();
+        await follower.poll();
+        expect(follower.isLeader()).toBe(true);
+        expect(changes).toEqual([true]);
+    });
+
+    test('should take over from a leader whose process is gone', async () => {
+        await open();
+        const follower = await open({ isProcessAlive: () => false });
+        expect(follower.isLeader()).toBe(true);
+        expect(follower.isFirstWindow()).toBe(true);
+    });
+
+    test('should let only one window replace a stale lock', async () => {
+        await open();
+        const stale = JSON.parse(fs.readFileSync(path.join(directory, 'leader.json'), 'utf8'));
+        const first = await open({ isProcessAlive: () => false });
+        expect(first.isLeader()).toBe(true);
+
+        // A window that read the stale lock before the first one replaced it
+        const late = new WindowCoordinator(directory, { heartbeatMs: 3600000, isProcessAlive: () => false });
+        windows.push(late);
+        jest.spyOn(late as unknown as { readLock(): Promise<unknown> }, 'readLock').mockResolvedValue(stale);
+        await late.start();
+
+        expect(late.isLeader()).toBe(false);
+        expect(JSON.parse(fs.readFileSync(path.join(directory, 'leader.json'), 'utf8')).windowId).toBe(first.windowId);
+        await first.poll();
+        expect(first.isLeader()).toBe(true);
+    });
+
+    test('should pause this window when the shared storage is gone', async () => {
+        const coordinator = await open();
+        fs.rmSync(directory, { recursive: true, force: true });
+        await expect(coordinator.setPaused(true)).resolves.toBeUndefined();
+        expect(coordinator.isPaused()).toBe(true);
+    });
+
+    test('should share the paused state', async () => {
+        const first = await open();
+        const second = await open();
+        const changes: boolean[] = [];
+        second.onDidChangePaused((paused) => changes.push(paused));
+
+        await first.setPaused(true);
+        await second.poll();
+        expect(second.isPaused()).toBe(true);
+        expect((await open()).isPaused()).toBe(true);
+
+        await first.setPaused(false);
+        await second.poll();
+        expect(changes).toEqual([true, false]);
+    });
+});